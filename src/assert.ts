@@ -1,10 +1,109 @@
-import { validate, type IntermediateValidator } from './validator.js'
+import { validate, formatError, getLeafError, type IntermediateValidator, type WithInput, type Path } from './validator.js'
+import type { ErrorMessages } from './message.js'
+
+export interface ValidationErrorOptions {
+	/**
+	 * Converts the input before it is kept on {@linkcode ValidationError.input}, to hide sensitive values from logs.
+	 * 
+	 * @example
+	 * ```ts
+	 * new ValidationError(reason, password, { redact: () => '[redacted]' })
+	 * ```
+	 */
+	redact?: (input: unknown) => unknown
+	/**
+	 * The message catalog that the message is made by.
+	 * 
+	 * @see {@linkcode FormatErrorOptions.messages}
+	 */
+	messages?: Partial<ErrorMessages>
+}
+/**
+ * Indicates a failed validation, thrown by {@linkcode assertIs} and assertion functions by {@linkcode assertion}.
+ * The message is the report by {@linkcode formatError}.
+ * 
+ * @template E A type that indicates a validation error.
+ */
+export class ValidationError<E = unknown> extends Error {
+	override name = 'ValidationError'
+	/**
+	 * The reason of the failure, which is also on `cause`.
+	 */
+	readonly reason: E
+	/**
+	 * The path to the value that caused the failure, as {@linkcode getLeafError} tells.
+	 */
+	readonly path: Path
+	/**
+	 * The validated value, which may be redacted.
+	 * 
+	 * @see {@linkcode ValidationErrorOptions.redact}
+	 */
+	readonly input: unknown
+	
+	constructor(reason: E, input: unknown, { redact, messages }: ValidationErrorOptions = {}) {
+		super(formatError(reason, messages && { messages }), { cause: reason })
+		this.reason = reason
+		this.path = getLeafError({ ok: false, reason }).path
+		this.input = redact ? redact(input) : input
+	}
+}
 
 /**
  * Asserts the value passes given validator.
+ * 
+ * @param options The options for the {@linkcode ValidationError} to throw.
+ * @throws {ValidationError} If the validation failed.
+ * @see {@linkcode assertion}
  */
-// NOTE: consider support `assertIs(iv)` variant or not
-export const assertIs: <T extends Req, Req>(x: NoInfer<Req>, iv: IntermediateValidator<T, any, Req>) => asserts x is T & Req = (x, iv) => {
+export const assertIs: <T extends Req, Req, I = T>(
+	x: NoInfer<Req>,
+	iv: IntermediateValidator<T, any, Req> & WithInput<I>,
+	options?: ValidationErrorOptions,
+) => asserts x is I & Req = (x, iv, options) => {
 	const res = validate(x, iv)
-	if (!res.ok) throw res.reason
+	if (!res.ok) throw new ValidationError(res.reason, x, options)
 }
+
+/**
+ * Indicates an assertion function created by {@linkcode assertion}.
+ * Note that TypeScript requires an explicit type annotation to call assertion functions, so annotate variables with this type.
+ */
+export type Assertion<T, Req = unknown> = (x: Req) => asserts x is T & Req
+export interface AssertionOptions<E> {
+	/**
+	 * The message catalog that the message of the default error is made by.
+	 * 
+	 * @see {@linkcode ValidationErrorOptions.messages}
+	 */
+	messages?: Partial<ErrorMessages>
+	/**
+	 * Creates the error to throw if the validation failed.
+	 * 
+	 * @default (reason, input) => new ValidationError(reason, input, { messages })
+	 */
+	error?: (reason: E, input: unknown) => unknown
+}
+/**
+ * Creates an assertion function from the validator.
+ * 
+ * @example
+ * ```ts
+ * const assertUser: Assertion<User> = assertion(User, {
+ *   error: (reason, input) => new ValidationError(reason, input, { redact: () => '[redacted]' }),
+ * })
+ * // someValue: unknown
+ * assertUser(someValue)
+ * // someValue: User
+ * ```
+ * 
+ * @see {@linkcode AssertionOptions}
+ */
+export const assertion = <T extends Req, E, Req, I = T>(
+	iv: IntermediateValidator<T, E, Req> & WithInput<I>,
+	{ messages, error = (reason, input) => new ValidationError(reason, input, messages && { messages }) }: AssertionOptions<E> = {},
+): Assertion<I, Req> =>
+	x => {
+		const res = validate(x, iv)
+		if (!res.ok) throw error(res.reason, x)
+	}
@@ -0,0 +1,248 @@
+import { type IntermediateValidator, type AnyIntermediateValidator, type ValidationTargetOf, type ValidationErrorOf, type RequirementOf, type ErrorWithCause, type Result, type Path, ok, fail, errorWithCause, errorWithCauses, errorWithPath } from './validator.js'
+import { codedError, type CodedError } from './message.js'
+import { ValidationError } from './assert.js'
+import { any, array, object, optional, withDefault, strictProps, type PropsOptions, type PropsReturn, type RealPropertyKey } from './helper.js'
+import { describe, stripExtraPropsOf } from './descriptor.js'
+
+/**
+ * Indicates an asynchronous validator.
+ * 
+ * @template T The type that the function checks.
+ * @template E A type that indicates a validation error.
+ * @template Req A requirement for the argument of the function.
+ */
+export type AsyncIntermediateValidator<T extends Req, E, Req = unknown> =
+	(x: Req) => AsyncGenerator<E, T, unknown>
+export type AnyAsyncIntermediateValidator = AsyncIntermediateValidator<any, any, any>
+/**
+ * Indicates a validator that is either synchronous or asynchronous.
+ */
+export type MaybeAsyncIntermediateValidator<T extends Req, E, Req = unknown> =
+	| IntermediateValidator<T, E, Req>
+	| AsyncIntermediateValidator<T, E, Req>
+export type AnyMaybeAsyncIntermediateValidator = MaybeAsyncIntermediateValidator<any, any, any>
+export type AsyncValidator<T, E, Req = unknown> = (x: Req) => Promise<Result<T, E>>
+
+/**
+ * A helper function for building an asynchronous validator.
+ * 
+ * @example
+ * ```ts
+ * const AvailableUsername = asyncValidator(async function*(x) {
+ *   const username = yield* string(x)
+ *   if (await isTaken(username)) throw yield 'The username is already taken.'
+ *   return username
+ * })
+ * ```
+ */
+export const asyncValidator = <T extends Req, E, Req>(gf: AsyncIntermediateValidator<T, E, Req>) => gf
+/**
+ * A helper function for building an asynchronous validator, with an ability to specify target type.
+ */
+export const asyncValidatorFor = <T>() =>
+	<E = string, Req = unknown>(gf: AsyncIntermediateValidator<T & Req, E, Req>): AsyncIntermediateValidator<T & Req, E, Req> =>
+		asyncValidator<T & Req, E, Req>(gf)
+
+/**
+ * Creates an {@linkcode AsyncValidator}.
+ */
+export function validateAsync<T extends Req, E, Req>(iv: MaybeAsyncIntermediateValidator<T, E, Req>): AsyncValidator<T, E, Req>
+/**
+ * Validates the value.
+ * Both synchronous and asynchronous validators are accepted.
+ * 
+ * @returns A promise that resolves to a {@linkcode Ok} if the validation succeeded, a {@linkcode Fail} otherwise.
+ */
+export function validateAsync<T extends Req, E, Req>(x: NoInfer<Req>, iv: MaybeAsyncIntermediateValidator<T, E, Req>): Promise<Result<T, E>>
+export function validateAsync<T extends Req, E, Req>(
+	...[xOrIv, iv]:
+		| [x: NoInfer<Req>, iv: MaybeAsyncIntermediateValidator<T, E, Req>]
+		| [iv: MaybeAsyncIntermediateValidator<T, E, Req>, _?: never]
+) {
+	if (!iv) return (x: Req) => validateAsync(x, xOrIv)
+	
+	return (async () => {
+		const res = await iv(xOrIv).next()
+		
+		return res.done ? ok(res.value) : fail(res.value)
+	})()
+}
+
+/**
+ * @returns A promise that resolves to whether the value passes the given validator.
+ * Note that the function cannot narrow the value, since TypeScript does not support asynchronous type guards.
+ */
+export const isAsync = async <T extends Req, Req>(x: NoInfer<Req>, iv: MaybeAsyncIntermediateValidator<T, any, Req>) =>
+	(await validateAsync(x, iv)).ok
+
+/**
+ * Asserts the value passes given validator.
+ * Since TypeScript does not support asynchronous assertion functions,
+ * the narrowed value is returned instead of narrowing the argument.
+ * 
+ * @returns A promise that resolves to the value, or rejects with a {@linkcode ValidationError}.
+ */
+export const assertIsAsync = async <T extends Req, Req>(x: NoInfer<Req>, iv: MaybeAsyncIntermediateValidator<T, any, Req>): Promise<T & Req> => {
+	const res = await validateAsync(x, iv)
+	if (!res.ok) throw new ValidationError(res.reason, x)
+	return res.value
+}
+
+/**
+ * An asynchronous version of {@linkcode mapError}.
+ */
+export const mapErrorAsync = <T extends Req, Cause, Req, E>(iv: MaybeAsyncIntermediateValidator<T, Cause, Req>, transform: (cause: Cause) => E) =>
+	asyncValidator(async function*(x: Req) {
+		const res = await validateAsync(x, iv)
+		if (!res.ok) throw yield transform(res.reason)
+		return res.value
+	})
+/**
+ * An asynchronous version of {@linkcode wrapError}.
+ */
+export const wrapErrorAsync = <T extends Req, Cause, Req, E>(iv: MaybeAsyncIntermediateValidator<T, Cause, Req>, error: E) =>
+	mapErrorAsync(iv, origErr => errorWithCause(error, origErr))
+/**
+ * An asynchronous version of {@linkcode wrapErrorAt}.
+ */
+export const wrapErrorAtAsync = <T extends Req, Cause, Req, E>(iv: MaybeAsyncIntermediateValidator<T, Cause, Req>, error: E, path: Path) =>
+	mapErrorAsync(iv, origErr => errorWithPath(error, origErr, path))
+
+/**
+ * An asynchronous version of {@linkcode pipe}.
+ */
+export const pipeAsync = <T2 extends Req2, E1, E2, Req1, Req2 extends Req1>(
+	a: MaybeAsyncIntermediateValidator<Req2, E1, Req1>,
+	b: MaybeAsyncIntermediateValidator<T2, E2, Req2>,
+) =>
+	asyncValidator<T2, E1 | E2, Req1>(async function*(x) {
+		return yield* b(yield* a(x))
+	})
+
+type UnionToIntersection<U> =
+	(U extends U ? (_: U) => void : never) extends ((_: infer I) => void)
+		? I
+		: never
+type MergeRequirements<IvU extends AnyMaybeAsyncIntermediateValidator> =
+	(UnionToIntersection<IvU extends AnyMaybeAsyncIntermediateValidator ? [RequirementOf<IvU>] : never> & [unknown])[0]
+
+/**
+ * An asynchronous version of {@linkcode or}.
+ * The validators are tried in order.
+ */
+export const orAsync = <Ivs extends Array<AnyMaybeAsyncIntermediateValidator>>(...ivs: Ivs) =>
+	asyncValidator<
+		([Ivs[number]] extends [never] ? unknown : ValidationTargetOf<Ivs[number]>) & MergeRequirements<Ivs[number]>,
+		ErrorWithCause<CodedError<'noneOf'>, Array<ValidationErrorOf<Ivs[number]>>>,
+		MergeRequirements<Ivs[number]>
+	>(async function*(x) {
+		const errs = []
+		for (const iv of ivs) {
+			const res = await validateAsync(x, iv)
+			if (res.ok) return res.value
+			else errs.push(res.reason)
+		}
+		throw yield errorWithCauses(codedError('noneOf'), errs)
+	})
+
+/**
+ * An asynchronous version of {@linkcode and}.
+ * The validators are run in order, and each of them receives the output of the previous one.
+ */
+export const andAsync = <Ivs extends Array<AnyMaybeAsyncIntermediateValidator>>(...ivs: Ivs) =>
+	asyncValidator(async function*(x) {
+		let value = x
+		for (const iv of ivs) {
+			value = yield* wrapErrorAsync(
+				iv,
+				codedError('notAll'),
+			)(value)
+		}
+		
+		return value
+	}) as MergeRequirements<Ivs[number]> extends infer Req
+		? AsyncIntermediateValidator<
+			[Ivs[number]] extends [never]
+				? Req
+				: (UnionToIntersection<Ivs[number] extends AnyMaybeAsyncIntermediateValidator ? [ValidationTargetOf<Ivs[number]>] : never> & [Req])[0],
+			ErrorWithCause<CodedError<'notAll'>, ValidationErrorOf<Ivs[number]>>,
+			Req
+		>
+		: never
+
+/**
+ * An asynchronous version of {@linkcode props}.
+ * Existence of the properties is checked first, then each property value is validated in order.
+ * If there are transformers in the definition, the validator produces a copy of the object with the transformed property values.
+ */
+export const propsAsync = <
+	Defs extends Record<RealPropertyKey, AnyMaybeAsyncIntermediateValidator>,
+	P extends boolean = false
+>(
+	defs: Defs,
+	opts: PropsOptions<P> = {},
+) => {
+	const defKeys = Reflect.ownKeys(defs)
+	const { own = true, allowExtra = true, extra = allowExtra ? 'allow' : 'reject' } = opts
+	// reuses the synchronous validator to check existence of the properties, with the modifiers of the definition
+	const checkKeys = strictProps(Object.fromEntries(defKeys.map(key => {
+		const desc = describe(defs[key] as AnyIntermediateValidator)
+		return [
+			key,
+			desc?.kind == 'optional'
+				? optional(any)
+				: desc?.kind == 'withDefault'
+					? withDefault(any, desc.value)
+					: any,
+		]
+	})), opts)
+	
+	return asyncValidator(async function*(x: unknown) {
+		const obj = (yield* object(x)) as Record<RealPropertyKey, unknown>
+		// NOTE: the result is a copy if default values are set or extra properties are stripped
+		let res = (yield* checkKeys(obj)) as Record<RealPropertyKey, unknown>
+		
+		for (const key of defKeys) {
+			if (own ? !Object.prototype.hasOwnProperty.call(obj, key) : !(key in obj)) continue
+			
+			const v = obj[key]
+			const transformed = yield* wrapErrorAtAsync(
+				defs[key] as MaybeAsyncIntermediateValidator<any, ValidationErrorOf<Defs[keyof Defs]>, unknown>,
+				codedError('invalidProperty', { key }),
+				[key],
+			)(v)
+			if (transformed !== v) {
+				if (res === obj) res = { ...obj }
+				res[key] = transformed
+			}
+		}
+		
+		// NOTE: extra properties are stripped through the definitions as well, as on `props`
+		return (extra == 'strip' ? stripExtraPropsOf(res, defs as Record<RealPropertyKey, AnyIntermediateValidator>, { own }) : res) as object & PropsReturn<Defs, P>
+	})
+}
+
+/**
+ * An asynchronous version of {@linkcode arrayOf}.
+ * The elements are validated in order.
+ */
+export const arrayOfAsync = <T, E>(iv: MaybeAsyncIntermediateValidator<T, E>) =>
+	asyncValidator(async function*(x) {
+		const arr = yield* array(x)
+		
+		let idx = 0
+		// NOTE: the array is copied only if any of the elements is transformed
+		let transformed: Array<unknown> | undefined
+		for (const elem of arr) {
+			const res = yield* wrapErrorAtAsync(
+				iv,
+				codedError('invalidElement', { index: idx }),
+				[idx],
+			)(elem)
+			if (res !== elem) (transformed ??= [...arr])[idx] = res
+			
+			idx += 1
+		}
+		
+		return (transformed ?? arr) as Array<T>
+	})
@@ -0,0 +1,329 @@
+import { type AnyIntermediateValidator, type IntermediateValidator, type Validator, ok, fail, errorWithCause, errorWithPath, errorWithCauses } from './validator.js'
+import type { RealPropertyKey, ExtraPropsMode } from './helper.js'
+import { describe, stripExtraPropsOf, recordMatchedBranch } from './descriptor.js'
+import { codedError, type ErrorCode, type ErrorMessageParams } from './message.js'
+import { tagKeyOf } from './util.js'
+
+// NOTE: compiled validators return the output, or a failure which cannot be confused with outputs since the class is not exposed
+class Failure {
+	constructor(readonly reason: unknown) {}
+}
+type Compiled = (x: any) => unknown
+
+const compiledValidators = new WeakMap<AnyIntermediateValidator, Compiled>()
+const usedValidators = new WeakSet<AnyIntermediateValidator>()
+const compileValidator = (iv: AnyIntermediateValidator): Compiled => {
+	let compiled = compiledValidators.get(iv)
+	if (!compiled) {
+		compiled = build(iv)
+		compiledValidators.set(iv, compiled)
+	}
+	return compiled
+}
+
+const isObject = (x: unknown): x is object =>
+	typeof x == 'object' && x !== null || typeof x == 'function'
+const generic = (iv: AnyIntermediateValidator): Compiled =>
+	x => {
+		const res = iv(x).next()
+		return res.done ? res.value : new Failure(res.value)
+	}
+type ParamlessErrorCode = { [C in ErrorCode]: {} extends ErrorMessageParams[C] ? C : never }[ErrorCode]
+const check = (predicate: (x: unknown) => boolean, code: ParamlessErrorCode): Compiled =>
+	x => predicate(x) ? x : new Failure(codedError(code))
+const compileOr = (ivs: Array<AnyIntermediateValidator>): Compiled => {
+	const compiled = ivs.map(compileValidator)
+	return x => {
+		const errs = []
+		for (const [idx, c] of compiled.entries()) {
+			const res = c(x)
+			if (!(res instanceof Failure)) {
+				recordMatchedBranch(res, ivs[idx]!)
+				return res
+			}
+			errs.push(res.reason)
+		}
+		return new Failure(errorWithCauses(codedError('noneOf'), errs))
+	}
+}
+interface CompiledProp {
+	key: RealPropertyKey
+	compiled: Compiled
+	modifier: 'optional' | 'default' | undefined
+	defaultValue: unknown
+}
+const compileProps = (
+	iv: AnyIntermediateValidator,
+	defs: Record<RealPropertyKey, AnyIntermediateValidator>,
+	{ extra, partial, own }: { extra: ExtraPropsMode; partial: boolean; own: boolean },
+): Compiled => {
+	const defKeys = Reflect.ownKeys(defs)
+	const defKeysSet = new Set(defKeys)
+	const props = defKeys.map((key): CompiledProp => {
+		const desc = describe(defs[key]!)
+		return {
+			key,
+			compiled: compileValidator(defs[key]!),
+			modifier: desc?.kind == 'optional' ? 'optional' : desc?.kind == 'withDefault' ? 'default' : undefined,
+			defaultValue: desc?.kind == 'withDefault' ? desc.value : undefined,
+		}
+	})
+	// NOTE: variants of `props` share the descriptor but differ only on non-object values, so the original validator handles them
+	const fallback = generic(iv)
+	
+	return x => {
+		if (!isObject(x)) return fallback(x)
+		
+		const o = x as Record<RealPropertyKey, unknown>
+		let transformed: Record<RealPropertyKey, unknown> | undefined
+		for (const { key, compiled, modifier, defaultValue } of props) {
+			if (own ? !Object.prototype.hasOwnProperty.call(o, key) : !(key in o)) {
+				if (modifier == 'default') (transformed ??= { ...o })[key] = defaultValue
+				else if (!partial && modifier != 'optional') return new Failure(errorWithPath(codedError('invalidProperty', { key }), codedError('missingKey', { key, own }), [key]))
+				continue
+			}
+			
+			const v = o[key]
+			const res = compiled(v)
+			if (res instanceof Failure) return new Failure(errorWithPath(codedError('invalidProperty', { key }), res.reason, [key]))
+			if (res !== v) (transformed ??= { ...o })[key] = res
+		}
+		if (extra == 'reject') {
+			const extraKeys = Reflect.ownKeys(o).filter(k => !defKeysSet.has(k))
+			if (extraKeys.length > 0) return new Failure(codedError('extraProperties', { keys: extraKeys }))
+		}
+		
+		return extra == 'strip' ? stripExtraPropsOf(transformed ?? x, defs, { own }) : transformed ?? x
+	}
+}
+const compileArrayOf = (elementIv: AnyIntermediateValidator, nonEmpty: boolean): Compiled => {
+	const compiled = compileValidator(elementIv)
+	return x => {
+		if (!Array.isArray(x)) return new Failure(codedError('notArray'))
+		
+		let transformed: Array<unknown> | undefined
+		for (let idx = 0; idx < x.length; idx++) {
+			const elem = x[idx]
+			const res = compiled(elem)
+			if (res instanceof Failure) return new Failure(errorWithPath(codedError('invalidElement', { index: idx }), res.reason, [idx]))
+			if (res !== elem) (transformed ??= [...x])[idx] = res
+		}
+		if (nonEmpty && x.length == 0) return new Failure(codedError('emptyArray'))
+		
+		return transformed ?? x
+	}
+}
+
+const build = (iv: AnyIntermediateValidator): Compiled => {
+	const desc = describe(iv)
+	switch (desc?.kind) {
+		case 'any':
+			return x => x
+		case 'string':
+			return check(x => typeof x == 'string', 'notString')
+		case 'number':
+			return check(x => typeof x == 'number', 'notNumber')
+		case 'boolean':
+			return check(x => typeof x == 'boolean', 'notBoolean')
+		case 'bigInt':
+			return check(x => typeof x == 'bigint', 'notBigInt')
+		case 'null':
+			return check(x => x === null, 'notNull')
+		case 'undefined':
+			return check(x => x === undefined, 'notUndefined')
+		case 'symbol':
+			return check(x => typeof x == 'symbol', 'notSymbol')
+		case 'function':
+			return check(x => typeof x == 'function', 'notFunction')
+		case 'object':
+			return check(isObject, 'notObject')
+		case 'array':
+			return check(Array.isArray, 'notArray')
+		case 'trim':
+			return x => typeof x == 'string' ? x.trim() : new Failure(codedError('notString'))
+		case 'equal': {
+			const { value } = desc
+			return x => x === value ? x : new Failure(codedError('notEqual', { expected: value }))
+		}
+		case 'oneOf': {
+			const { values } = desc
+			// NOTE: `includes` is not used since it treats `NaN`s as equal, unlike `equal`
+			return x => values.some(value => x === value) ? x : new Failure(codedError('notOneOf', { expected: values }))
+		}
+		case 'not': {
+			const compiled = compileValidator(desc.children.inner)
+			return x => compiled(x) instanceof Failure ? x : new Failure(codedError('negated'))
+		}
+		case 'or':
+			return compileOr(desc.children)
+		case 'nullable': {
+			const compiled = compileValidator(desc.children.inner)
+			return x => {
+				if (x === null) return x
+				
+				const res = compiled(x)
+				if (!(res instanceof Failure)) return res
+				return new Failure(errorWithCauses(codedError('noneOf'), [codedError('notNull'), res.reason]))
+			}
+		}
+		case 'nullishable': {
+			const compiled = compileValidator(desc.children.inner)
+			return x => {
+				if (x == null) return x
+				
+				const res = compiled(x)
+				if (!(res instanceof Failure)) return res
+				const nullishError = errorWithCauses(codedError('noneOf'), [codedError('notNull'), codedError('notUndefined')])
+				return new Failure(errorWithCauses(codedError('noneOf'), [nullishError, res.reason]))
+			}
+		}
+		case 'and': {
+			const compiled = desc.children.map(compileValidator)
+			return x => {
+				let value = x
+				for (const c of compiled) {
+					value = c(value)
+					if (value instanceof Failure) return new Failure(errorWithCause(codedError('notAll'), value.reason))
+				}
+				return value
+			}
+		}
+		case 'pipe': {
+			const [a, b] = desc.children.map(compileValidator) as [Compiled, Compiled]
+			return x => {
+				const res = a(x)
+				return res instanceof Failure ? res : b(res)
+			}
+		}
+		case 'transform': {
+			const compiled = compileValidator(desc.children.inner)
+			const { fn } = desc
+			return x => {
+				const res = compiled(x)
+				return res instanceof Failure ? res : fn(res)
+			}
+		}
+		case 'mapError': {
+			const compiled = compileValidator(desc.children.inner)
+			const { fn } = desc
+			return x => {
+				const res = compiled(x)
+				return res instanceof Failure ? new Failure(fn(res.reason)) : res
+			}
+		}
+		case 'propValueOf': {
+			const { values } = desc
+			return x => {
+				if (values.some(value => x === value)) return x
+				
+				const errs = values.map(value => codedError('notEqual', { expected: value }))
+				return new Failure(errorWithCause(codedError('notPropValue'), errorWithCauses(codedError('noneOf'), errs)))
+			}
+		}
+		case 'wrapError': {
+			const compiled = compileValidator(desc.children.inner)
+			const { error, path } = desc
+			return x => {
+				const res = compiled(x)
+				if (!(res instanceof Failure)) return res
+				return new Failure(path ? errorWithPath(error, res.reason, path) : errorWithCause(error, res.reason))
+			}
+		}
+		case 'optional':
+		case 'withDefault':
+			// NOTE: the modifiers take effect only on `props`, and the validators themselves just call the given validator
+			return compileValidator(desc.children.inner)
+		case 'brand':
+			return compileValidator(desc.children.inner)
+		case 'lazy': {
+			if (desc.options.detectCycles) return generic(iv)
+			
+			// NOTE: the validator is compiled on the first validation, since it may contain itself
+			let compiled: Compiled | undefined
+			return x => (compiled ??= compileValidator(desc.children.inner))(x)
+		}
+		case 'props':
+			return compileProps(iv, desc.children, desc.options)
+		case 'prop':
+			return compileProps(iv, { [desc.key]: desc.children.inner }, { extra: 'allow', ...desc.options })
+		case 'taggedUnion': {
+			const { key, children } = desc
+			const branches: Record<RealPropertyKey, Compiled> = Object.create(null)
+			for (const tag of Reflect.ownKeys(children)) branches[tag] = compileValidator(children[tag]!)
+			return x => {
+				if (!isObject(x)) return new Failure(codedError('notObject'))
+				
+				const tag = (x as Record<RealPropertyKey, unknown>)[key]
+				const defKey = tagKeyOf(children, tag)
+				if (defKey === undefined) return new Failure(codedError('unknownTag', { key, tag, expected: Reflect.ownKeys(children) }))
+				return branches[defKey]!(x)
+			}
+		}
+		case 'dict': {
+			const compiledKey = compileValidator(desc.children.key)
+			const compiledValue = compileValidator(desc.children.value)
+			const fallback = generic(iv)
+			return x => {
+				if (!isObject(x)) return fallback(x)
+				
+				let changed = false
+				const entries: Array<[RealPropertyKey, unknown]> = []
+				for (const key of Reflect.ownKeys(x)) {
+					const k = compiledKey(key)
+					if (k instanceof Failure) return k
+					
+					const value = x[key as never]
+					const res = compiledValue(value)
+					if (res instanceof Failure) return new Failure(errorWithPath(codedError('invalidProperty', { key: k as RealPropertyKey }), res.reason, [k as RealPropertyKey]))
+					
+					if (k !== key || res !== value) changed = true
+					entries.push([k as RealPropertyKey, res])
+				}
+				return changed ? Object.fromEntries(entries) : x
+			}
+		}
+		case 'arrayOf':
+			return compileArrayOf(desc.children.element, false)
+		case 'nonEmptyArrayOf':
+			return compileArrayOf(desc.children.element, true)
+		default:
+			return generic(iv)
+	}
+}
+
+/**
+ * @returns The compiled validator if the validator is a built-in, or `undefined` for custom ones that only have the generator protocol,
+ * or for built-ins that are used for the first time.
+ */
+export const fastPathOf = (iv: AnyIntermediateValidator) => {
+	const compiled = compiledValidators.get(iv)
+	if (compiled || !describe(iv)) return compiled
+	
+	// NOTE: validators are compiled on their second use, so that ones built for a single validation do not pay for compiling
+	if (!usedValidators.has(iv)) {
+		usedValidators.add(iv)
+		return undefined
+	}
+	return compileValidator(iv)
+}
+export const isFailure = (x: unknown): x is Failure =>
+	x instanceof Failure
+
+/**
+ * Compiles the validator into a function that validates without generators, which is much faster on large values.
+ * Validators built from built-ins are specialized, and the others (e.g. ones by {@linkcode validator}) are run as usual.
+ * The results are the same as {@linkcode validate}, including errors.
+ * 
+ * @example
+ * ```ts
+ * const validateUsers = compile(arrayOf(props({ name: string, age: number })))
+ * validateUsers(payload) // { ok: true, value: [...] }
+ * ```
+ */
+export const compile = <T extends Req, E, Req>(iv: IntermediateValidator<T, E, Req>): Validator<T, E, Req> => {
+	const compiled = compileValidator(iv)
+	return x => {
+		const res = compiled(x)
+		return res instanceof Failure ? fail(res.reason as E) : ok(res as T)
+	}
+}
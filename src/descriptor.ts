@@ -0,0 +1,342 @@
+import { validate, type AnyIntermediateValidator, type Path } from './validator.js'
+import type { RealPropertyKey, TemplateLiteralPart, ExtraPropsMode } from './helper.js'
+import { tagKeyOf } from './util.js'
+
+interface DescriptorBase<K extends string> {
+	kind: K
+}
+/**
+ * Describes validators that take no arguments, such as {@linkcode string}.
+ */
+export interface PrimitiveDescriptor extends DescriptorBase<
+	| 'any' | 'string' | 'number' | 'boolean' | 'bigInt' | 'null' | 'undefined' | 'symbol' | 'function' | 'object' | 'array'
+	| 'trim'
+	| 'integer' | 'safeInteger' | 'finite'
+	| 'date' | 'validDate' | 'regExp' | 'map' | 'set' | 'arrayBuffer' | 'promiseLike' | 'error'
+> {}
+/**
+ * Describes validators for typed arrays, such as {@linkcode uint8Array}.
+ */
+export interface TypedArrayDescriptor extends DescriptorBase<'typedArray'> {
+	name:
+		| 'Int8Array' | 'Uint8Array' | 'Uint8ClampedArray' | 'Int16Array' | 'Uint16Array' | 'Int32Array' | 'Uint32Array'
+		| 'Float32Array' | 'Float64Array' | 'BigInt64Array' | 'BigUint64Array'
+}
+export interface CoerceDescriptor extends DescriptorBase<'coerce'> {
+	target: 'number' | 'boolean' | 'date'
+}
+export interface EqualDescriptor extends DescriptorBase<'equal'> {
+	value: unknown
+}
+export interface OneOfDescriptor extends DescriptorBase<'oneOf'> {
+	values: Array<unknown>
+}
+export interface TemplateLiteralDescriptor extends DescriptorBase<'templateLiteral'> {
+	parts: Array<TemplateLiteralPart>
+	/**
+	 * Matches the whole string.
+	 */
+	pattern: RegExp
+	/**
+	 * The template shown in error messages, such as `user-${number}`.
+	 */
+	template: string
+}
+export interface InstanceOfDescriptor extends DescriptorBase<'instanceOf'> {
+	class: abstract new (...args: any) => unknown
+}
+export interface KeyOfDescriptor extends DescriptorBase<'keyOf'> {
+	object: object
+	options: {
+		own: boolean
+	}
+}
+export interface PropValueOfDescriptor extends DescriptorBase<'propValueOf'> {
+	object: object
+	/**
+	 * The values of the properties at the time the validator was created.
+	 */
+	values: Array<unknown>
+}
+export interface LengthDescriptor extends DescriptorBase<'minLength' | 'maxLength' | 'minItems' | 'maxItems'> {
+	value: number
+}
+export interface UniqueItemsDescriptor extends DescriptorBase<'uniqueItems'> {
+	/**
+	 * Exists only if the function is given.
+	 */
+	key?: (elem: any) => unknown
+}
+export interface RegexDescriptor extends DescriptorBase<'regex'> {
+	pattern: RegExp
+}
+export interface AffixDescriptor extends DescriptorBase<'startsWith' | 'endsWith'> {
+	value: string
+}
+export interface FormatDescriptor extends DescriptorBase<'format'> {
+	format: 'email' | 'uuid' | 'url' | 'isoDate' | 'isoDateTime'
+}
+export interface BoundDescriptor extends DescriptorBase<'min' | 'max'> {
+	value: number | bigint
+	options: {
+		exclusive: boolean
+	}
+}
+export interface BetweenDescriptor extends DescriptorBase<'between'> {
+	min: number | bigint
+	max: number | bigint
+	options: {
+		minExclusive: boolean
+		maxExclusive: boolean
+	}
+}
+export interface MultipleOfDescriptor extends DescriptorBase<'multipleOf'> {
+	value: number | bigint
+}
+/**
+ * Describes validators that combine any number of validators.
+ */
+export interface CombinatorDescriptor extends DescriptorBase<'or' | 'and' | 'pipe' | 'tuple'> {
+	children: Array<AnyIntermediateValidator>
+}
+/**
+ * Describes validators that wrap a validator.
+ */
+export interface WrapperDescriptor extends DescriptorBase<'not' | 'nullable' | 'nullishable' | 'optional' | 'optionalElement' | 'rest' | 'brand'> {
+	children: { inner: AnyIntermediateValidator }
+}
+export interface MapErrorDescriptor extends DescriptorBase<'mapError'> {
+	children: { inner: AnyIntermediateValidator }
+	/**
+	 * Takes what `inner` fails with.
+	 */
+	fn: (err: unknown) => unknown
+}
+/**
+ * Note that the validator is got when `inner` is accessed, and validators may contain themselves through it.
+ */
+export interface LazyDescriptor extends DescriptorBase<'lazy'> {
+	children: { inner: AnyIntermediateValidator }
+	options: {
+		detectCycles: boolean
+	}
+}
+export interface WrapErrorDescriptor extends DescriptorBase<'wrapError'> {
+	children: { inner: AnyIntermediateValidator }
+	error: unknown
+	/**
+	 * Exists only if the validator is created by {@linkcode wrapErrorAt}.
+	 */
+	path?: Path
+}
+export interface TransformDescriptor extends DescriptorBase<'transform'> {
+	children: { inner: AnyIntermediateValidator }
+	/**
+	 * Takes what `inner` produces.
+	 */
+	fn: (x: unknown) => unknown
+}
+export interface WithDefaultDescriptor extends DescriptorBase<'withDefault'> {
+	children: { inner: AnyIntermediateValidator }
+	value: unknown
+}
+export interface PropDescriptor extends DescriptorBase<'prop'> {
+	key: RealPropertyKey
+	children: { inner: AnyIntermediateValidator }
+	options: {
+		partial: boolean
+		own: boolean
+	}
+}
+export interface PropsDescriptor extends DescriptorBase<'props'> {
+	children: Record<RealPropertyKey, AnyIntermediateValidator>
+	options: {
+		allowExtra: boolean
+		extra: ExtraPropsMode
+		partial: boolean
+		own: boolean
+	}
+}
+export interface TaggedUnionDescriptor extends DescriptorBase<'taggedUnion'> {
+	key: RealPropertyKey
+	children: Record<RealPropertyKey, AnyIntermediateValidator>
+}
+export interface DictDescriptor extends DescriptorBase<'dict' | 'mapOf'> {
+	children: { key: AnyIntermediateValidator; value: AnyIntermediateValidator }
+}
+export interface ArrayOfDescriptor extends DescriptorBase<'arrayOf' | 'nonEmptyArrayOf' | 'setOf' | 'iterableOf'> {
+	children: { element: AnyIntermediateValidator }
+}
+/**
+ * Describes how a built-in validator is built.
+ * Validators that the validator consists of are on `children`, which is either an array or a record.
+ * 
+ * Note that validators with strict and loose variants (e.g. {@linkcode strictProps}, {@linkcode props} and {@linkcode looseProps})
+ * share the same descriptor, since they check the same structure.
+ */
+export type Descriptor =
+	| PrimitiveDescriptor
+	| TypedArrayDescriptor
+	| CoerceDescriptor
+	| EqualDescriptor
+	| OneOfDescriptor
+	| TemplateLiteralDescriptor
+	| InstanceOfDescriptor
+	| KeyOfDescriptor
+	| PropValueOfDescriptor
+	| LengthDescriptor
+	| UniqueItemsDescriptor
+	| RegexDescriptor
+	| AffixDescriptor
+	| FormatDescriptor
+	| BoundDescriptor
+	| BetweenDescriptor
+	| MultipleOfDescriptor
+	| CombinatorDescriptor
+	| WrapperDescriptor
+	| MapErrorDescriptor
+	| LazyDescriptor
+	| WrapErrorDescriptor
+	| TransformDescriptor
+	| WithDefaultDescriptor
+	| PropDescriptor
+	| PropsDescriptor
+	| TaggedUnionDescriptor
+	| DictDescriptor
+	| ArrayOfDescriptor
+
+const descriptors = new WeakMap<AnyIntermediateValidator, Descriptor>()
+/**
+ * Attaches the descriptor to the validator.
+ * 
+ * @returns The given validator.
+ */
+export const describedAs = <Iv extends AnyIntermediateValidator>(iv: Iv, descriptor: Descriptor) => {
+	descriptors.set(iv, descriptor)
+	return iv
+}
+/**
+ * Describes how the validator is built, so tools can walk the structure of validators.
+ * 
+ * @example
+ * ```ts
+ * describe(props({ name: string }))
+ * // { kind: 'props', children: { name: string }, options: { allowExtra: true, extra: 'allow', partial: false, own: true } }
+ * describe(validator(function*(x) { ... })) // undefined
+ * ```
+ * 
+ * @returns The descriptor of the validator, or `undefined` if the validator is not a built-in.
+ */
+export const describe = (iv: AnyIntermediateValidator) =>
+	descriptors.get(iv)
+
+// NOTE: outputs of transformers may no longer pass the branches that produced them, so the branches are recorded instead of being found again
+const matchedBranches = new WeakMap<object, Set<AnyIntermediateValidator>>()
+/**
+ * Records that the output is produced by the branch of {@linkcode or}, so that {@linkcode stripExtraProps} strips the output through the branch.
+ */
+export const recordMatchedBranch = (output: unknown, branch: AnyIntermediateValidator) => {
+	if (typeof output != 'object' || output === null) return
+	
+	const branches = matchedBranches.get(output)
+	if (branches) branches.add(branch)
+	else matchedBranches.set(output, new Set([branch]))
+}
+
+/**
+ * @returns A copy of the object with only the properties on the definition, whose values are processed by {@linkcode stripExtraProps}.
+ */
+export const stripExtraPropsOf = (obj: object, defs: Record<RealPropertyKey, AnyIntermediateValidator>, { own }: { own: boolean }) => {
+	const o = obj as Record<RealPropertyKey, unknown>
+	const stripped: Record<RealPropertyKey, unknown> = {}
+	for (const key of Reflect.ownKeys(defs)) {
+		if (own ? !Object.prototype.hasOwnProperty.call(o, key) : !(key in o)) continue
+		stripped[key] = stripExtraProps(o[key], defs[key]!)
+	}
+	return stripped
+}
+/**
+ * Removes properties not in the definitions of {@linkcode props} from the validated value, through validators that hold other values such as {@linkcode arrayOf}.
+ * Values are copied only where validators for objects and arrays are found, so the result shares nothing that can have extra properties with the value.
+ * 
+ * @see {@linkcode PropsOptions.extra}
+ */
+export const stripExtraProps = (x: unknown, iv: AnyIntermediateValidator): unknown => {
+	const desc = describe(iv)
+	switch (desc?.kind) {
+		case 'props':
+			return typeof x == 'object' && x !== null ? stripExtraPropsOf(x, desc.children, desc.options) : x
+		case 'taggedUnion': {
+			if (typeof x != 'object' || x === null) return x
+			
+			const tag = (x as Record<RealPropertyKey, unknown>)[desc.key]
+			const defKey = tagKeyOf(desc.children, tag)
+			if (defKey === undefined) return x
+			const branch = desc.children[defKey]!
+			
+			// NOTE: the discriminant is a part of the output, even if the definition for the tag does not have it
+			const stripped = stripExtraProps(x, branch)
+			return stripped !== x && typeof stripped == 'object' && stripped !== null ? { ...stripped, [desc.key]: tag } : stripped
+		}
+		case 'or': {
+			// NOTE: the value is stripped through the validator that produced the value
+			const branches = typeof x == 'object' && x !== null ? matchedBranches.get(x) : undefined
+			const branch = desc.children.find(child => branches?.has(child)) ?? desc.children.find(child => validate(x, child).ok)
+			return branch ? stripExtraProps(x, branch) : x
+		}
+		case 'and': {
+			// NOTE: the properties that any of the validators specifies are kept
+			const stripped = desc.children.map(child => stripExtraProps(x, child)).filter(res => res !== x)
+			if (stripped.length <= 1 || Array.isArray(x)) return stripped[0] ?? x
+			return Object.assign({}, ...stripped) as unknown
+		}
+		case 'dict': {
+			if (typeof x != 'object' || x === null) return x
+			
+			const o = x as Record<RealPropertyKey, unknown>
+			const stripped: Record<RealPropertyKey, unknown> = {}
+			for (const key of Reflect.ownKeys(o)) stripped[key] = stripExtraProps(o[key], desc.children.value)
+			return stripped
+		}
+		// NOTE: the value passed the validator, so it is a map or a set, which may be from another realm
+		case 'mapOf':
+			return new Map([...x as Map<unknown, unknown>].map(([key, value]) => [stripExtraProps(key, desc.children.key), stripExtraProps(value, desc.children.value)]))
+		case 'setOf':
+			return new Set([...x as Set<unknown>].map(elem => stripExtraProps(elem, desc.children.element)))
+		case 'arrayOf':
+		case 'nonEmptyArrayOf':
+		case 'iterableOf':
+			return Array.isArray(x) ? x.map(elem => stripExtraProps(elem, desc.children.element)) : x
+		case 'tuple': {
+			if (!Array.isArray(x)) return x
+			
+			// NOTE: elements are matched the same way as `tuple` does
+			const restIdx = desc.children.findIndex(child => describe(child)?.kind == 'rest')
+			const leading = restIdx == -1 ? desc.children : desc.children.slice(0, restIdx)
+			const trailing = restIdx == -1 ? [] : desc.children.slice(restIdx + 1)
+			const trailingStart = x.length - trailing.length
+			return x.map((elem, idx) => {
+				const child = idx >= trailingStart ? trailing[idx - trailingStart] : leading[idx] ?? desc.children[restIdx]
+				return child ? stripExtraProps(elem, child) : elem
+			})
+		}
+		case 'pipe':
+			// NOTE: the output comes from the last validator
+			return stripExtraProps(x, desc.children[desc.children.length - 1]!)
+		case 'nullable':
+		case 'nullishable':
+		case 'optional':
+		case 'optionalElement':
+		case 'rest':
+		case 'brand':
+		case 'withDefault':
+		case 'wrapError':
+		case 'mapError':
+			return stripExtraProps(x, desc.children.inner)
+		case 'lazy':
+			// NOTE: values with cycles would never end, so they are left as they are
+			return desc.options.detectCycles ? x : stripExtraProps(x, desc.children.inner)
+		default:
+			return x
+	}
+}
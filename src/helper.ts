@@ -1,13 +1,16 @@
-import { type AnyIntermediateValidator, type IntermediateValidator, validator, validatorFor, validate, type ValidationTargetOf, type ValidationErrorOf, type RequirementOf, wrapError, type ErrorWithCause, mapError } from './validator.js'
+import { type AnyIntermediateValidator, type IntermediateValidator, validator, validatorFor, validate, type ValidationTargetOf, type ValidationErrorOf, type RequirementOf, type ValidationInputOf, type Transformer, type WithInput, transformerFor, wrapError, wrapErrorAt, wrapErrorOf, wrapErrorAtOf, type ErrorWithCause, errorWithCause, errorWithPath, errorWithCauses, mapError, attempt, giveUp } from './validator.js'
 import { is } from './predicate.js'
-import { noInferReturn } from './util.js'
+import { noInferReturn, escapeRegExp, stringifyValue, tagKeyOf } from './util.js'
+import { codedError, type CodedError } from './message.js'
+import type { AnyAsyncIntermediateValidator } from './async.js'
+import { describedAs, describe, stripExtraPropsOf, recordMatchedBranch, type Descriptor } from './descriptor.js'
 
 /**
  * Indicates types that are valid as a property key at runtime.
  * Note that `number` is not a valid property key at runtime since
  * JS coerces any values other than symbols to string.
  */
-type RealPropertyKey = string | symbol
+export type RealPropertyKey = string | symbol
 
 type UnionToIntersection<U> =
 	(U extends U ? (_: U) => void : never) extends ((_: infer I) => void)
@@ -53,11 +56,11 @@ const lazyGenericIv = <Iv extends AnyIntermediateValidator>(iv: Iv) =>
  */
 export const not = <R>() =>
 	<T extends Req, Req>(iv: IntermediateValidator<T, any, Req>) =>
-		validator(function*(x: Req) {
-			if (is(x, iv)) throw yield 'The value passed the given validator, although it should not, since the validator is negated.'
+		describedAs(validator(function*(x: Req) {
+			if (is(x, iv)) throw yield codedError('negated')
 			
 			return x as R & Req
-		})
+		}), { kind: 'not', children: { inner: iv } })
 
 /**
  * Validates the value is the same as given value.
@@ -70,14 +73,16 @@ export const not = <R>() =>
  * }
  */
 export const equal = <const T>(value: T) =>
-	validatorFor<T>()(function*(x) {
-		if (x !== value) throw yield 'The values are not equal.'
+	describedAs(validatorFor<T>()(function*(x) {
+		if (x !== value) throw yield codedError('notEqual', { expected: value })
 		
 		return x as T
-	})
+	}), { kind: 'equal', value })
 
 /**
  * Validates the value is an instance of the given class.
+ * Note that instances from other realms (e.g. iframes) do not pass the validator,
+ * so prefer realm-independent validators such as {@linkcode date} and {@linkcode map} for built-in classes.
  * 
  * @example
  * ```ts
@@ -88,11 +93,11 @@ export const equal = <const T>(value: T) =>
  * ```
  */
 export const instanceOf = <T>(Class: abstract new (...args: any) => T) =>
-	validatorFor<T>()(function*(x) {
-		if (!(x instanceof Class)) throw yield `The value is not an instance of \`${Class.name || Class}\`.`
+	describedAs(validatorFor<T>()(function*(x) {
+		if (!(x instanceof Class)) throw yield codedError('notInstanceOf', { class: Class })
 		
 		return x
-	})
+	}), { kind: 'instanceOf', class: Class })
 
 // to not to be confused with `AnyIntermediateValidator`, a type alias with clear intention is defined
 type AnyUnknownRequirementIntermediateValidator = IntermediateValidator<any, any>
@@ -111,13 +116,98 @@ type AnyUnknownRequirementIntermediateValidator = IntermediateValidator<any, any
  * const objWithSomeProp = pipe(object, props({ someProp: string }))
  * ```
  */
-export const pipe = <T2 extends Req2, E1, E2, Req1, Req2 extends Req1>(
-	a: IntermediateValidator<Req2, E1, Req1>,
-	b: IntermediateValidator<T2, E2, Req2>,
+export const pipe = <T2, E1, E2, Req1, Req2 extends Req1, I1 = Req2, I2 = T2>(
+	a: IntermediateValidator<Req2, E1, Req1> & WithInput<I1>,
+	// NOTE: `b` may accept more than what `a` produces, e.g. `integer` that also accepts bigints
+	b: ((x: NoInfer<Req2>) => Generator<E2, T2, unknown>) & WithInput<I2>,
 ) =>
-	validator<T2, E1 | E2, Req1>(function*(x) {
+	describedAs((function*(x: Req1) {
 		return yield* b(yield* a(x))
+	}) as Transformer<
+		// NOTE: if `a` is a transformer, what `b` checks is not related to the value anymore
+		([I1, Req2] extends [Req2, I1] ? I2 & Req2 : I1) & Req1,
+		// NOTE: if `b` is not a transformer, it produces the value that `a` produced
+		[I2, T2] extends [T2, I2] ? T2 & Req2 : T2,
+		E1 | E2,
+		Req1
+	>, { kind: 'pipe', children: [a, b] })
+
+/**
+ * Transforms the value that passed the given validator, with the given function.
+ * Note that {@linkcode is} and {@linkcode assertIs} narrow the value to what the validator checks, not the result of the function.
+ * 
+ * @example
+ * ```ts
+ * const length = transform(string, str => str.length)
+ * validate('abc', length) // { ok: true, value: 3 }
+ * ```
+ */
+export const transform = <T extends Req, E, Req, O, I = T>(iv: IntermediateValidator<T, E, Req> & WithInput<I>, fn: (x: T) => O) =>
+	describedAs(transformerFor<I>()(function*(x: Req) {
+		return fn(yield* iv(x))
+	}), { kind: 'transform', children: { inner: iv }, fn: fn as (x: unknown) => O })
+
+export interface LazyOptions {
+	/**
+	 * Whether the validator should pass an object that the validator is already validating, instead of validating it again.
+	 * This prevents stack overflow on self-referencing object graphs.
+	 * Note that the object is produced as-is on the cycle, even if the given validator is a transformer.
+	 * 
+	 * @default false
+	 */
+	detectCycles?: boolean
+}
+/**
+ * Defers getting the validator until the value is validated, so validators can refer to validators that are defined later, including themselves.
+ * Note that recursive validators need explicit type annotations, since TypeScript cannot infer types that refer to themselves.
+ * 
+ * @example
+ * ```ts
+ * interface Tree {
+ *   value: number
+ *   children: Array<Tree>
+ * }
+ * const Tree = validatorFor<Tree>()(lazy((): IntermediateValidator<Tree, unknown> =>
+ *   props({ value: number, children: arrayOf(Tree) })
+ * ))
+ * ```
+ * 
+ * @see {@linkcode LazyOptions}
+ */
+export const lazy = <T extends Req, E, Req, I = T>(getIv: () => IntermediateValidator<T, E, Req> & WithInput<I>, { detectCycles = false }: LazyOptions = {}) => {
+	let iv: IntermediateValidator<T, E, Req> | undefined
+	const resolve = () => iv ??= getIv()
+	// NOTE: an object is in the set only while the given validator is running on it, so suspended validators do not leave objects in the set
+	const running = new WeakSet<object>()
+	
+	return describedAs(transformerFor<I>()(function*(x: Req) {
+		if (!detectCycles || typeof x != 'object' || x === null) return yield* resolve()(x)
+		if (running.has(x)) return x as T
+		
+		const gen = resolve()(x)
+		let resumption: unknown
+		while (true) {
+			running.add(x)
+			let res
+			try {
+				res = gen.next(resumption)
+			} finally {
+				running.delete(x)
+			}
+			if (res.done) return res.value
+			
+			resumption = yield res.value
+		}
+	}), {
+		kind: 'lazy',
+		children: {
+			get inner() {
+				return resolve()
+			},
+		},
+		options: { detectCycles },
 	})
+}
 
 type MergeRequirements<IvU extends AnyIntermediateValidator> =
 	(UnionToIntersection<ExtractReqIntoTuple<IvU>> & [unknown])[0]
@@ -126,6 +216,10 @@ type OrResult<Ivs extends AnyIntermediateValidator> =
 	[Ivs] extends [never]
 		? unknown
 		: ValidationTargetOf<Ivs>
+type OrInput<Ivs extends AnyIntermediateValidator> =
+	[Ivs] extends [never]
+		? unknown
+		: ValidationInputOf<Ivs>
 /**
  * Validates the value passes any of the given validators.
  * Note that the validator requires an intersection of the requirement of the given validators.
@@ -139,19 +233,29 @@ type OrResult<Ivs extends AnyIntermediateValidator> =
  * }
  */
 export const or = <Ivs extends Array<AnyIntermediateValidator>>(...ivs: Ivs) =>
-	validator<
+	describedAs(validator<
 		OrResult<Ivs[number]> & MergeRequirements<Ivs[number]>,
-		ErrorWithCause<string, Array<ValidationErrorOf<Ivs[number]>>>,
+		ErrorWithCause<CodedError<'noneOf'>, Array<ValidationErrorOf<Ivs[number]>>>,
 		MergeRequirements<Ivs[number]>
 	>(function*(x) {
 		const errs = []
 		for (const iv of ivs) {
 			const res = validate(x, iv)
-			if (res.ok) return x as any
-			else errs.push(res.reason)
+			if (!res.ok) {
+				errs.push(res.reason)
+				continue
+			}
+			
+			recordMatchedBranch(res.value, iv)
+			return res.value
 		}
-		throw yield ['The value did not pass any of the given validators.', errs]
-	})
+		throw yield errorWithCauses(codedError('noneOf'), errs)
+	}) as Transformer<
+		OrInput<Ivs[number]> & MergeRequirements<Ivs[number]>,
+		OrResult<Ivs[number]> & MergeRequirements<Ivs[number]>,
+		ErrorWithCause<CodedError<'noneOf'>, Array<ValidationErrorOf<Ivs[number]>>>,
+		MergeRequirements<Ivs[number]>
+	>, { kind: 'or', children: ivs })
 
 type AndIv<IvU extends AnyIntermediateValidator> =
 	[MergeRequirements<IvU>] extends [infer Req]
@@ -166,6 +270,7 @@ type AndIv<IvU extends AnyIntermediateValidator> =
 /**
  * Validates the value passes all of the given validators.
  * Note that the validator requires an intersection of the requirement of each validators.
+ * If there are transformers, each validator receives the output of the previous one, and the validator produces the output of the last one.
  * 
  * @example
  * ```ts
@@ -179,17 +284,21 @@ type AndIv<IvU extends AnyIntermediateValidator> =
  * }
  * ```
  */
-export const and = <Ivs extends Array<AnyIntermediateValidator>>(...ivs: Ivs) =>
-	validator(function*(x) {
-		for (const iv of ivs) {
-			yield* wrapError(
-				iv,
-				'The value did not pass all of the given validators.',
-			)(x)
+export const and = <Ivs extends Array<AnyIntermediateValidator>>(...ivs: Ivs) => {
+	const wrappedIvs = ivs.map(iv => wrapError(iv, codedError('notAll')))
+	return describedAs(validator(function*(x) {
+		let value = x
+		let failed = false
+		for (const iv of wrappedIvs) {
+			const res = yield* attempt(iv(value))
+			if (!res.ok) failed = true
+			else value = res.value
 		}
+		if (failed) giveUp()
 		
-		return x
-	}) as AndIv<Ivs[number]>
+		return value
+	}) as AndIv<Ivs[number]>, { kind: 'and', children: ivs })
+}
 
 /**
  * Validates the value is one of the given values.
@@ -209,19 +318,120 @@ export const oneOf = <const Vs extends Array<unknown>>(...values: Vs) =>
  * This validator is useful when you want to compare the value with values that a generator yields.
  */
 export const looseOneOf = <Vs extends Array<unknown>>(...values: Vs) =>
-	mapError(
+	describedAs(mapError(
 		or(...values.map(x => equal<Vs[number]>(x))),
-		_ => 'The value is none of the given values.',
-	)
+		_ => codedError('notOneOf', { expected: values }),
+	), { kind: 'oneOf', values })
+
+export type TemplateLiteralValue = string | number | bigint | boolean | null | undefined
+export type TemplateLiteralPart = TemplateLiteralValue | IntermediateValidator<TemplateLiteralValue, any>
+type TemplateLiteralOf<Parts extends Array<TemplateLiteralPart>> =
+	Parts extends [infer P extends TemplateLiteralPart, ...infer Rest extends Array<TemplateLiteralPart>]
+		? `${P extends AnyIntermediateValidator ? ValidationTargetOf<P> & TemplateLiteralValue : P & TemplateLiteralValue}${TemplateLiteralOf<Rest>}`
+		: ''
+
+// NOTE: `${number}` of TypeScript also accepts hexadecimal and so on, but only the decimal notation is accepted here
+const numberPattern = '[+-]?(?:\\d+(?:\\.\\d*)?|\\.\\d+)(?:[eE][+-]?\\d+)?'
+const templateValuePattern = (value: unknown) => {
+	if (value !== null && typeof value == 'object' || typeof value == 'function' || typeof value == 'symbol') {
+		throw new TypeError('Only strings, numbers, bigints, booleans, null and undefined can be a part of template literals.')
+	}
+	return escapeRegExp(String(value))
+}
+type TemplatePart = [pattern: string, template: string, parse: (segment: string) => unknown]
+/**
+ * @returns A pattern that matches the part, how the part is shown in error messages, and how the matched segment is converted into the value of the part.
+ */
+const templatePartOf = (part: TemplateLiteralPart): TemplatePart => {
+	if (typeof part != 'function') return [templateValuePattern(part), String(part), () => part]
+	
+	const desc = describe(part)
+	switch (desc?.kind) {
+		case 'string':
+			return ['[\\s\\S]*', '${string}', segment => segment]
+		case 'number':
+			return [numberPattern, '${number}', Number]
+		case 'bigInt':
+			return ['-?\\d+', '${bigint}', BigInt]
+		case 'boolean':
+			return ['true|false', '${boolean}', segment => segment == 'true']
+		// NOTE: TypeScript shows `${null}` and `${undefined}` as the literals
+		case 'null':
+			return ['null', 'null', () => null]
+		case 'undefined':
+			return ['undefined', 'undefined', () => undefined]
+		case 'equal': {
+			const { value } = desc
+			return [templateValuePattern(value), `\${${stringifyValue(value)}}`, () => value]
+		}
+		case 'oneOf': {
+			const { values } = desc
+			return [
+				values.map(templateValuePattern).join('|'),
+				`\${${values.map(stringifyValue).join(' | ')}}`,
+				segment => values.find(value => String(value) == segment),
+			]
+		}
+		case 'templateLiteral':
+			return [desc.pattern.source.slice(1, -1), desc.template, segment => segment]
+		// NOTE: refined validators are matched by what they accept first, e.g. `pipe(string, minLength(1))` by `string`
+		case 'pipe':
+			return templatePartOf(desc.children[0] as TemplateLiteralPart)
+		case 'brand':
+			return templatePartOf(desc.children.inner as TemplateLiteralPart)
+	}
+	throw new TypeError('The validator cannot be a part of template literals.')
+}
+/**
+ * Validates the value is a string that matches the template literal.
+ * Each part is either a literal value or one of {@linkcode string}, {@linkcode number}, {@linkcode bigInt}, {@linkcode boolean},
+ * {@linkcode null_}, {@linkcode undefined_}, {@linkcode equal}, {@linkcode oneOf} and {@linkcode templateLiteral}.
+ * They can be refined by {@linkcode pipe} and {@linkcode brand}, such as `pipe(string, minLength(1))`,
+ * and the validator of each part runs on the segment of the string, converted into the type of the part (e.g. a number for {@linkcode number}).
+ * Note that numbers are accepted only in the decimal notation.
+ * Note also that the string is split at the first match of the whole template, where {@linkcode string} takes as many characters as possible,
+ * and other splits are not tried even if the validators of the parts fail on it.
+ * 
+ * @example
+ * ```ts
+ * const UserId = templateLiteral('user-', number)
+ * // someValue: unknown
+ * if (is(someValue, UserId)) {
+ *   // someValue: `user-${number}`
+ * }
+ * ```
+ * @throws {TypeError} If any of the parts is not supported.
+ */
+export const templateLiteral = <const Parts extends Array<TemplateLiteralPart>>(...parts: Parts) => {
+	const compiled = parts.map(templatePartOf)
+	const pattern = new RegExp(`^${compiled.map(([pattern]) => `(?:${pattern})`).join('')}$`)
+	// NOTE: patterns of nested template literals have no capturing groups, so each group is a segment of the part at the same index
+	const segmentsPattern = new RegExp(`^${compiled.map(([pattern]) => `(${pattern})`).join('')}$`)
+	const template = compiled.map(([, template]) => template).join('')
+	
+	return describedAs(validatorFor<TemplateLiteralOf<Parts>>()(function*(x) {
+		const str = yield* string(x)
+		const segments = segmentsPattern.exec(str)
+		if (!segments) throw yield codedError('templateMismatch', { template })
+		
+		for (const [idx, part] of parts.entries()) {
+			if (typeof part != 'function') continue
+			
+			const [, , parse] = compiled[idx]!
+			yield* wrapErrorOf(part(parse(segments[idx + 1]!)), codedError('templateMismatch', { template }))
+		}
+		return str as TemplateLiteralOf<Parts>
+	}), { kind: 'templateLiteral', parts, pattern, template })
+}
 
 /**
  * Note that the validator narrows the value to `any`, which is unsafe but convenient.
  * 
  * @see {@linkcode any}
  */
-export const anyUnsafe = validatorFor<any>()(function*(x) {
+export const anyUnsafe = describedAs(validatorFor<any>()(function*(x) {
 	return x
-})
+}), { kind: 'any' })
 /**
  * Validates nothing.
  * This validator is useful on collections like tuples.
@@ -242,79 +452,298 @@ export const any = validatorFor<unknown>()(anyUnsafe)
 /**
  * Validates the value is a string.
  */
-export const string = validatorFor<string>()(function*(x) {
-	if (typeof x != 'string') throw yield 'The value is not a string.'
+export const string = describedAs(validatorFor<string>()(function*(x) {
+	if (typeof x != 'string') throw yield codedError('notString')
 	
 	return x
-})
+}), { kind: 'string' })
 /**
  * Validates the value is a number.
  */
-export const number = validatorFor<number>()(function*(x) {
-	if (typeof x != 'number') throw yield 'The value is not a number.'
+export const number = describedAs(validatorFor<number>()(function*(x) {
+	if (typeof x != 'number') throw yield codedError('notNumber')
 	
 	return x
-})
+}), { kind: 'number' })
 /**
  * Validates the value is a boolean.
  */
-export const boolean = validatorFor<boolean>()(function*(x) {
-	if (typeof x != 'boolean') throw yield 'The value is not a boolean.'
+export const boolean = describedAs(validatorFor<boolean>()(function*(x) {
+	if (typeof x != 'boolean') throw yield codedError('notBoolean')
 	
 	return x
-})
+}), { kind: 'boolean' })
 /**
  * Validates the value is a `BigInt`.
  */
-export const bigInt = validatorFor<bigint>()(function*(x) {
-	if (typeof x != 'bigint') throw yield 'The value is not a BigInt.'
+export const bigInt = describedAs(validatorFor<bigint>()(function*(x) {
+	if (typeof x != 'bigint') throw yield codedError('notBigInt')
 	
 	return x
-})
+}), { kind: 'bigInt' })
 /**
  * Validates the value is `null`.
  */
-export const null_ = validatorFor<null>()(function*(x) {
-	if (x !== null) throw yield 'The value is not null.'
+export const null_ = describedAs(validatorFor<null>()(function*(x) {
+	if (x !== null) throw yield codedError('notNull')
 	
 	return x
-})
+}), { kind: 'null' })
 export { null_ as null }
 /**
  * Validates the value is `undefined`.
  */
-export const undefined_ = validatorFor<undefined>()(function*(x) {
-	if (x !== undefined) throw yield 'The value is not undefined.'
+export const undefined_ = describedAs(validatorFor<undefined>()(function*(x) {
+	if (x !== undefined) throw yield codedError('notUndefined')
 	
 	return x
-})
+}), { kind: 'undefined' })
 export { undefined_ as undefined }
 /**
  * Validates the value is a symbol.
  */
-export const symbol = validatorFor<symbol>()(function*(x) {
-	if (typeof x != 'symbol') throw yield 'The value is not a symbol.'
+export const symbol = describedAs(validatorFor<symbol>()(function*(x) {
+	if (typeof x != 'symbol') throw yield codedError('notSymbol')
 	
 	return x
-})
+}), { kind: 'symbol' })
 /**
  * Validates the value is a function.
  */
-export const function_ = validatorFor<Function>()(function*(x) {
-	if (typeof x != 'function') throw yield 'The value is not a function.'
+export const function_ = describedAs(validatorFor<Function>()(function*(x) {
+	if (typeof x != 'function') throw yield codedError('notFunction')
 	
 	return x
-})
+}), { kind: 'function' })
 export { function_ as function }
 /**
  * Validates the value is an object.
  */
-export const object = validatorFor<object>()(function*(x) {
+export const object = describedAs(validatorFor<object>()(function*(x) {
 	// NOTE: functions are objects as well
 	if (typeof x == 'object' && x !== null || typeof x == 'function') return x
 	
-	throw yield 'The value is not an object.'
-})
+	throw yield codedError('notObject')
+}), { kind: 'object' })
+
+// NOTE: validators below check internal slots instead of prototypes, so objects from other realms (e.g. `node:vm` contexts) pass them
+const hasInternalSlot = (check: () => unknown) => {
+	try {
+		check()
+		return true
+	} catch {
+		return false
+	}
+}
+const getterOf = (proto: object, key: PropertyKey) =>
+	Object.getOwnPropertyDescriptor(proto, key)!.get!
+const regExpSource = getterOf(RegExp.prototype, 'source')
+const mapSize = getterOf(Map.prototype, 'size')
+const setSize = getterOf(Set.prototype, 'size')
+const arrayBufferByteLength = getterOf(ArrayBuffer.prototype, 'byteLength')
+const typedArrayTag = getterOf(Object.getPrototypeOf(Uint8Array.prototype), Symbol.toStringTag)
+/**
+ * Validates the value is a {@linkcode Date}, including invalid dates.
+ * Unlike `instanceOf(Date)`, dates from other realms pass the validator.
+ * 
+ * @see {@linkcode validDate}
+ */
+export const date = describedAs(validatorFor<Date>()(function*(x) {
+	if (!hasInternalSlot(() => Date.prototype.getTime.call(x))) throw yield codedError('notDate')
+	
+	return x as Date
+}), { kind: 'date' })
+/**
+ * Validates the value is a {@linkcode Date} that represents an actual time.
+ */
+export const validDate = describedAs(validatorFor<Date>()(function*(x) {
+	const d = yield* date(x)
+	if (Number.isNaN(Date.prototype.getTime.call(d))) throw yield codedError('invalidDate')
+	
+	return d
+}), { kind: 'validDate' })
+/**
+ * Validates the value is a {@linkcode RegExp}.
+ * Unlike `instanceOf(RegExp)`, regular expressions from other realms pass the validator.
+ */
+export const regExp = describedAs(validatorFor<RegExp>()(function*(x) {
+	// NOTE: the getter of `source` does not throw on `RegExp.prototype`, which is not a regular expression
+	if (x === RegExp.prototype || !hasInternalSlot(() => regExpSource.call(x))) throw yield codedError('notRegExp')
+	
+	return x as RegExp
+}), { kind: 'regExp' })
+/**
+ * Validates the value is a {@linkcode Map}.
+ * Unlike `instanceOf(Map)`, maps from other realms pass the validator.
+ * 
+ * @see {@linkcode mapOf}
+ */
+export const map = describedAs(validatorFor<Map<unknown, unknown>>()(function*(x) {
+	if (!hasInternalSlot(() => mapSize.call(x))) throw yield codedError('notMap')
+	
+	return x as Map<unknown, unknown>
+}), { kind: 'map' })
+/**
+ * Validates the value is a {@linkcode Set}.
+ * Unlike `instanceOf(Set)`, sets from other realms pass the validator.
+ * 
+ * @see {@linkcode setOf}
+ */
+export const set = describedAs(validatorFor<Set<unknown>>()(function*(x) {
+	if (!hasInternalSlot(() => setSize.call(x))) throw yield codedError('notSet')
+	
+	return x as Set<unknown>
+}), { kind: 'set' })
+/**
+ * Validates the value is an {@linkcode ArrayBuffer}. Note that `SharedArrayBuffer`s do not pass the validator.
+ * Unlike `instanceOf(ArrayBuffer)`, array buffers from other realms pass the validator.
+ */
+export const arrayBuffer = describedAs(validatorFor<ArrayBuffer>()(function*(x) {
+	if (!hasInternalSlot(() => arrayBufferByteLength.call(x))) throw yield codedError('notArrayBuffer')
+	
+	return x as ArrayBuffer
+}), { kind: 'arrayBuffer' })
+type TypedArrayName =
+	| 'Int8Array' | 'Uint8Array' | 'Uint8ClampedArray' | 'Int16Array' | 'Uint16Array' | 'Int32Array' | 'Uint32Array'
+	| 'Float32Array' | 'Float64Array' | 'BigInt64Array' | 'BigUint64Array'
+const typedArray = <T>(name: TypedArrayName) =>
+	describedAs(validatorFor<T>()(function*(x) {
+		if (typedArrayTag.call(x) !== name) throw yield codedError('notTypedArray', { name })
+		
+		return x as T
+	}), { kind: 'typedArray', name })
+/**
+ * Validates the value is an {@linkcode Int8Array}, in a realm-independent way.
+ */
+export const int8Array = typedArray<Int8Array>('Int8Array')
+/**
+ * Validates the value is a {@linkcode Uint8Array}, in a realm-independent way.
+ * Note that `Buffer`s of Node.js pass the validator, since they are `Uint8Array`s.
+ */
+export const uint8Array = typedArray<Uint8Array>('Uint8Array')
+/**
+ * Validates the value is a {@linkcode Uint8ClampedArray}, in a realm-independent way.
+ */
+export const uint8ClampedArray = typedArray<Uint8ClampedArray>('Uint8ClampedArray')
+/**
+ * Validates the value is an {@linkcode Int16Array}, in a realm-independent way.
+ */
+export const int16Array = typedArray<Int16Array>('Int16Array')
+/**
+ * Validates the value is a {@linkcode Uint16Array}, in a realm-independent way.
+ */
+export const uint16Array = typedArray<Uint16Array>('Uint16Array')
+/**
+ * Validates the value is an {@linkcode Int32Array}, in a realm-independent way.
+ */
+export const int32Array = typedArray<Int32Array>('Int32Array')
+/**
+ * Validates the value is a {@linkcode Uint32Array}, in a realm-independent way.
+ */
+export const uint32Array = typedArray<Uint32Array>('Uint32Array')
+/**
+ * Validates the value is a {@linkcode Float32Array}, in a realm-independent way.
+ */
+export const float32Array = typedArray<Float32Array>('Float32Array')
+/**
+ * Validates the value is a {@linkcode Float64Array}, in a realm-independent way.
+ */
+export const float64Array = typedArray<Float64Array>('Float64Array')
+/**
+ * Validates the value is a {@linkcode BigInt64Array}, in a realm-independent way.
+ */
+export const bigInt64Array = typedArray<BigInt64Array>('BigInt64Array')
+/**
+ * Validates the value is a {@linkcode BigUint64Array}, in a realm-independent way.
+ */
+export const bigUint64Array = typedArray<BigUint64Array>('BigUint64Array')
+/**
+ * Validates the value is a thenable, i.e. an object with a `then` method.
+ * Note that the value is not awaited, so whether it resolves is not checked.
+ */
+export const promiseLike = describedAs(validatorFor<PromiseLike<unknown>>()(function*(x) {
+	const obj = yield* object(x)
+	if (typeof (obj as { then?: unknown }).then != 'function') throw yield codedError('notThenable')
+	
+	return obj as PromiseLike<unknown>
+}), { kind: 'promiseLike' })
+// NOTE: the getter throws on objects that are not `DOMException`s, on runtimes that have them
+const domExceptionName = typeof DOMException == 'function' ? Object.getOwnPropertyDescriptor(DOMException.prototype, 'name')?.get : undefined
+const isErrorFallback = (x: unknown) => {
+	if (typeof x != 'object' || x === null) return false
+	
+	// NOTE: `Object.prototype.toString` shows 'Error' by itself only for objects that have the internal slot of errors,
+	// so the result is trusted only if `Symbol.toStringTag` does not override it
+	if (typeof (x as { [Symbol.toStringTag]?: unknown })[Symbol.toStringTag] != 'string') return Object.prototype.toString.call(x) == '[object Error]'
+	return domExceptionName !== undefined && hasInternalSlot(() => domExceptionName.call(x))
+}
+/**
+ * Validates the value is an {@linkcode Error}, including `DOMException`s and errors from other realms.
+ * Note that objects that only inherit `Error.prototype` do not pass the validator.
+ * On runtimes that do not support `Error.isError`, errors that override `Symbol.toStringTag` do not pass the validator
+ * unless they are `DOMException`s of the current realm.
+ */
+export const error = describedAs(validatorFor<Error>()(function*(x) {
+	const isError = (Error as { isError?: (x: unknown) => boolean }).isError ?? isErrorFallback
+	if (!isError(x)) throw yield codedError('notError')
+	
+	return x as Error
+}), { kind: 'error' })
+
+/**
+ * Validates the value is a string, and produces the string without leading and trailing whitespaces.
+ */
+export const trim = describedAs(transform(string, str => str.trim()), { kind: 'trim' })
+/**
+ * Transformers that convert the value to specific type, if the value is convertible.
+ * 
+ * @example
+ * ```ts
+ * const Query = props({
+ *   page: coerce.number,
+ *   verbose: coerce.boolean,
+ * })
+ * validate({ page: '2', verbose: 'true' }, Query) // { ok: true, value: { page: 2, verbose: true } }
+ * ```
+ */
+export const coerce = {
+	/**
+	 * Converts numeric strings to numbers. Numbers except `NaN` are produced as-is.
+	 */
+	number: describedAs(transformerFor<number | string>()(function*(x) {
+		if (typeof x == 'number' && !Number.isNaN(x)) return x
+		if (typeof x == 'string' && x.trim() != '') {
+			const num = Number(x)
+			if (!Number.isNaN(num)) return num
+		}
+		
+		throw yield codedError('notConvertibleToNumber')
+	}), { kind: 'coerce', target: 'number' }),
+	/**
+	 * Converts `'true'`, `'false'`, `1` and `0` to booleans. Booleans are produced as-is.
+	 */
+	boolean: describedAs(transformerFor<boolean | 'true' | 'false' | 1 | 0>()(function*(x) {
+		if (typeof x == 'boolean') return x
+		if (x === 'true' || x === 1) return true
+		if (x === 'false' || x === 0) return false
+		
+		throw yield codedError('notConvertibleToBoolean')
+	}), { kind: 'coerce', target: 'boolean' }),
+	/**
+	 * Converts date strings and timestamps to `Date`s. Valid `Date`s are produced as-is.
+	 */
+	date: describedAs(transformerFor<Date | string | number>()(function*(x) {
+		const d =
+			is(x, date)
+				? x
+				: typeof x == 'string' || typeof x == 'number'
+					? new Date(x)
+					: null
+		if (d === null || Number.isNaN(Date.prototype.getTime.call(d))) throw yield codedError('notConvertibleToDate')
+		
+		return d
+	}), { kind: 'coerce', target: 'date' }),
+}
 
 /**
  * Validates the value passes the given validator or is `null`.
@@ -327,8 +756,8 @@ export const object = validatorFor<object>()(function*(x) {
  *  // someValue: string | null
  * }
  */
-export const nullable = <T extends Req, E, Req>(iv: IntermediateValidator<T, E, Req>) =>
-	or(null_, iv)
+export const nullable = <T extends Req, E, Req, I = T>(iv: IntermediateValidator<T, E, Req> & WithInput<I>) =>
+	describedAs(or(null_, iv), { kind: 'nullable', children: { inner: iv } })
 
 /**
  * Validates the value is either `null` or `undefined`.
@@ -338,8 +767,8 @@ export const nullish = or(null_, undefined_)
 /**
  * Validates the value passes the given validator or is either `null` or `undefined`.
  */
-export const nullishable = <T extends Req, E, Req>(iv: IntermediateValidator<T, E, Req>) =>
-	or(nullish, iv)
+export const nullishable = <T extends Req, E, Req, I = T>(iv: IntermediateValidator<T, E, Req> & WithInput<I>) =>
+	describedAs(or(nullish, iv), { kind: 'nullishable', children: { inner: iv } })
 
 /**
  * Validates the value is neither `null` nor `undefined`.
@@ -387,38 +816,34 @@ export interface KeyOfOptions {
  * @see {@linkcode KeyOfOptions}
  */
 export const strictKeyOf = <T>(obj: object & T, { own = true }: KeyOfOptions = {}) =>
-	validatorFor<keyof T>()(function*(key: PropertyKey) {
-		if (own) {
-			if (!Object.prototype.hasOwnProperty.call(obj, key)) {
-				throw yield `The given object does not contain own property '${key.toString()}'.`
-			}
-		} else {
-			if (!(key in obj)) {
-				throw yield `The given object does not contain property '${key.toString()}'.`
-			}
+	describedAs(validatorFor<keyof T>()(function*(key: PropertyKey) {
+		if (own ? !Object.prototype.hasOwnProperty.call(obj, key) : !(key in obj)) {
+			throw yield codedError('missingKey', { key, own })
 		}
 		
 		return key as PropertyKey & keyof T
-	})
+	}), { kind: 'keyOf', object: obj, options: { own } })
 /**
  * {@linkcode strictKeyOf} that accepts any value.
  * 
  * @see {@linkcode KeyOfOptions}
  */
 export const keyOf = <T>(obj: object & T, opts: KeyOfOptions = {}) =>
-	pipe(key, strictKeyOf(obj, opts))
+	describedAs(pipe(key, strictKeyOf(obj, opts)), { kind: 'keyOf', object: obj, options: { own: opts.own ?? true } })
 /**
  * Validates the value is one of the value of own properties of the given object.
  * Note that the validator is named as `propValueOf` instead of `valueOf`, to avoid confusion with {@linkcode Object.prototype.valueOf}.
  */
-export const propValueOf = <T>(obj: object & T) =>
+export const propValueOf = <T>(obj: object & T) => {
 	// NOTE: there is no `own` option since we guess there would be no demand for it
-	validatorFor<T[keyof T]>()(
-		wrapError(
-			or(...Reflect.ownKeys(obj).map(key => equal(obj[key as never]))),
-			'The value is none of the value of own properties of the given object.',
+	const values = Reflect.ownKeys(obj).map(key => obj[key as never] as T[keyof T])
+	return describedAs(validatorFor<T[keyof T]>()(
+		mapError(
+			or(...values.map(value => equal(value))),
+			cause => errorWithCause(codedError('notPropValue'), cause),
 		)
-	)
+	), { kind: 'propValueOf', object: obj, values })
+}
 
 // reduces { key?: unknown } to {}
 // reduces {} to unknown - the reduced result will be intersected with `object`, so this is ok
@@ -434,14 +859,72 @@ type ReduceProps<P> =
 				: OptionalUnknownRemoved
 			: never
 		: never
-type PropsReturn<Defs extends Record<RealPropertyKey, AnyIntermediateValidator>, P extends boolean> =
+type PropsShape<Ts, P extends boolean, OptionalKeys extends keyof Ts> =
 	ReduceProps<
-		{ [K in keyof Defs]: Extract<ValidationTargetOf<Defs[K]>, RequirementOf<Defs[K]>> } extends infer Ts
-			? P extends true
-				? Partial<Ts>
-				: Ts
-			: never
+		P extends true
+			? Partial<Ts>
+			: [OptionalKeys] extends [never]
+				? Ts
+				: Omit<Ts, OptionalKeys> & Partial<Pick<Ts, OptionalKeys>>
 	>
+type KeysWithModifier<Defs, Kinds extends PropModifier['kind']> =
+	{ [K in keyof Defs]: Defs[K] extends { readonly [propModifier]: { kind: Kinds } } ? K : never }[keyof Defs]
+export type PropsReturn<Defs extends Record<RealPropertyKey, AnyIntermediateValidator | AnyAsyncIntermediateValidator>, P extends boolean> =
+	{ [K in keyof Defs]: Extract<ValidationTargetOf<Defs[K]>, RequirementOf<Defs[K]>> } extends infer Ts
+		? PropsShape<Ts, P, KeysWithModifier<Defs, 'optional'> & keyof Ts>
+		: never
+/**
+ * {@linkcode PropsReturn} but for what the properties are checked against, which differs if there are transformers or default values in the definition.
+ */
+export type PropsInput<Defs extends Record<RealPropertyKey, AnyIntermediateValidator | AnyAsyncIntermediateValidator>, P extends boolean> =
+	{ [K in keyof Defs]: Extract<ValidationInputOf<Defs[K]>, RequirementOf<Defs[K]>> } extends infer Ts
+		? PropsShape<Ts, P, KeysWithModifier<Defs, 'optional' | 'default'> & keyof Ts>
+		: never
+
+const propModifier = Symbol('propModifier')
+type PropModifier =
+	| { kind: 'optional'; inner: AnyIntermediateValidator }
+	| { kind: 'default'; value: unknown }
+/**
+ * Marks the property as not required, on a definition of {@linkcode props} and its variants.
+ * Unlike {@linkcode PropOptions.partial}, only the property is affected.
+ * 
+ * @example
+ * ```ts
+ * const Person = props({
+ *   name: string,
+ *   phoneNumber: optional(string),
+ * })
+ * // someValue: unknown
+ * if (is(someValue, Person)) {
+ *   // someValue: { name: string; phoneNumber?: string }
+ * }
+ * ```
+ */
+export const optional = <Iv extends AnyIntermediateValidator>(iv: Iv) =>
+	describedAs(Object.assign(
+		// NOTE: wraps the validator to not to mark the given validator itself
+		((x: RequirementOf<Iv>) => iv(x)) as Iv,
+		{ [propModifier]: { kind: 'optional', inner: iv } as const },
+	), { kind: 'optional', children: { inner: iv } })
+/**
+ * Marks the property as not required, on a definition of {@linkcode props} and its variants.
+ * If the property does not exist, the validator produces a copy of the object with the given value as the property value.
+ * Note that the given value is used as-is, not copied.
+ * 
+ * @example
+ * ```ts
+ * const Options = props({
+ *   retries: withDefault(number, 3),
+ * })
+ * validate({}, Options) // { ok: true, value: { retries: 3 } }
+ * ```
+ */
+export const withDefault = <Iv extends AnyIntermediateValidator>(iv: Iv, value: ValidationTargetOf<NoInfer<Iv>>) =>
+	describedAs(Object.assign(
+		((x: RequirementOf<Iv>) => iv(x)) as Iv,
+		{ [propModifier]: { kind: 'default', value } as const },
+	), { kind: 'withDefault', children: { inner: iv }, value })
 export interface PropOptions<P extends boolean = false> extends KeyOfOptions {
 	/**
 	 * Whether the key is not required.
@@ -450,6 +933,8 @@ export interface PropOptions<P extends boolean = false> extends KeyOfOptions {
 	 */
 	partial?: P
 }
+const propDescriptor = (key: RealPropertyKey, valueIv: AnyIntermediateValidator, { partial = false, own = true }: PropOptions<boolean>): Descriptor =>
+	({ kind: 'prop', key, children: { inner: valueIv }, options: { partial, own } })
 type PropIv =
 	<
 		K extends RealPropertyKey,
@@ -462,6 +947,7 @@ type PropIv =
 	) => AnyIntermediateValidator
 /**
  * Validates the object has specific property that passes the given validator.
+ * If the given validator is a transformer, the validator produces a copy of the object with the transformed property value.
  * 
  * @example
  * ```ts
@@ -477,27 +963,31 @@ export const strictProp = (
 		valueIv,
 		{
 			partial = false as never,
-			...opts
+			own = true,
 		} = {},
-	) =>
-		validator(function*(obj: object) {
+	) => {
+		const valueIvAt = wrapErrorAt(
+			lazyGenericIv(valueIv),
+			codedError('invalidProperty', { key }),
+			[key],
+		)
+		return describedAs(transformerFor<object & PropsInput<Record<typeof key, typeof valueIv>, typeof partial>>()(function*(obj: object) {
 			const o = obj as Record<any, any>
-			const res = validate(key, strictKeyOf(o, opts))
-			if (!res.ok) {
-				if (partial) return noInferReturn(obj satisfies object)
-				else throw yield res.reason
+			// NOTE: the key is checked like `strictKeyOf`, without building the validator on each validation
+			if (own ? !Object.prototype.hasOwnProperty.call(o, key) : !(key in o)) {
+				const modifier = (valueIv as { [propModifier]?: PropModifier })[propModifier]
+				if (modifier?.kind == 'default') return noInferReturn({ ...o, [key]: modifier.value })
+				else if (partial || modifier?.kind == 'optional') return noInferReturn(obj satisfies object)
+				else throw yield errorWithPath(codedError('invalidProperty', { key }), codedError('missingKey', { key, own }), [key])
 			}
 			
-			const k = res.value
-			const v = o[k]
+			const v = o[key]
 			
-			yield* wrapError(
-				lazyGenericIv(valueIv),
-				`The value of property '${k.toString()}' did not pass the given validator.`,
-			)(v as any)
+			const transformed = yield* valueIvAt(v as any)
 			
-			return obj as object & PropsReturn<Record<typeof key, typeof valueIv>, typeof partial>
-		})
+			return (transformed === v ? obj : { ...o, [key]: transformed }) as object & PropsReturn<Record<typeof key, typeof valueIv>, typeof partial>
+		}), propDescriptor(key, valueIv, { partial, own }))
+	}
 ) satisfies PropIv
 
 /**
@@ -508,7 +998,7 @@ export const strictProp = (
  */
 export const prop = (
 	(key, valueIv, opts = {}) =>
-	pipe(object, strictProp(key, valueIv, opts))
+	describedAs(pipe(object, strictProp(key, valueIv, opts)), propDescriptor(key, valueIv, opts))
 ) satisfies PropIv
 
 /**
@@ -518,22 +1008,55 @@ export const prop = (
  * @see {@linkcode PropOptions}
  */
 export const looseProp = (
-	(key, valueIv, opts = {}) =>
-		validator(function*(x: unknown) {
-			yield* strictProp(key, valueIv, opts)(Object(x))
-			return x as PropsReturn<Record<typeof key, typeof valueIv>, NonNullable<typeof opts.partial>>
-		})
+	(key, valueIv, opts = {}) => {
+		const propIv = strictProp(key, valueIv, opts)
+		return describedAs(transformerFor<PropsInput<Record<typeof key, typeof valueIv>, NonNullable<typeof opts.partial>>>()(function*(x: unknown) {
+			const o = Object(x)
+			const transformed = yield* propIv(o)
+			return (transformed === o ? x : transformed) as PropsReturn<Record<typeof key, typeof valueIv>, NonNullable<typeof opts.partial>>
+		}), propDescriptor(key, valueIv, opts))
+	}
 ) satisfies PropIv
 
-type ExtractEachValidationTarget<Src extends Record<any, AnyIntermediateValidator> | ReadonlyArray<AnyIntermediateValidator>> =
-	{ [K in keyof Src]: Src[K] extends AnyIntermediateValidator ? ValidationTargetOf<Src[K]> : Src[K] }
+/**
+ * How validators for objects treat properties that are not specified on the definition.
+ * 
+ * - `'allow'`: ignores them.
+ * - `'reject'`: fails on them.
+ * - `'strip'`: produces a copy of the object without them, also on the values that the properties hold.
+ */
+export type ExtraPropsMode = 'allow' | 'reject' | 'strip'
 export interface PropsOptions<P extends boolean = false> extends PropOptions<P> {
 	/**
 	 * Whether the validator should ignore properties that is not specified on the definition.
+	 * `false` is the same as `extra: 'reject'`, and ignored if {@linkcode PropsOptions.extra} is given.
 	 * 
 	 * @default true
 	 */
 	allowExtra?: boolean
+	/**
+	 * How the validator treats properties that is not specified on the definition.
+	 * With `'strip'`, the validator always produces a new object with only the specified properties.
+	 * The properties are removed recursively through validators like {@linkcode props}, {@linkcode arrayOf} and {@linkcode tuple},
+	 * even if the nested validators allow them, so that unknown properties never leak.
+	 * 
+	 * @example
+	 * ```ts
+	 * const User = props({ name: string, tags: arrayOf(props({ label: string })) }, { extra: 'strip' })
+	 * validate({ name: '', admin: true, tags: [{ label: '', color: 'red' }] }, User)
+	 * // { ok: true, value: { name: '', tags: [{ label: '' }] } }
+	 * ```
+	 * 
+	 * @default 'allow'
+	 * @see {@linkcode ExtraPropsMode}
+	 */
+	extra?: ExtraPropsMode
+}
+const extraPropsModeOf = ({ allowExtra = true, extra = allowExtra ? 'allow' : 'reject' }: PropsOptions<boolean>) =>
+	extra
+const propsDescriptor = (defs: Record<RealPropertyKey, AnyIntermediateValidator>, { partial = false, own = true, ...opts }: PropsOptions<boolean>): Descriptor => {
+	const extra = extraPropsModeOf(opts)
+	return { kind: 'props', children: defs, options: { allowExtra: extra != 'reject', extra, partial, own } }
 }
 type PropsIv =
 	<
@@ -545,6 +1068,7 @@ type PropsIv =
 	) => AnyIntermediateValidator
 /**
  * Validates the object has specific properties and each property value passes the given validator.
+ * If there are transformers in the definition, the validator produces a copy of the object with the transformed property values.
  * 
  * @example
  * ```ts
@@ -559,44 +1083,34 @@ type PropsIv =
  * ```
  */
 export const strictProps = (
-	(
-		defs,
-		{
-			allowExtra = true,
-			...opts
-		} = {},
-	) =>
-		validator(function*(obj: object) { // NOTE: the validator requires `object` because `in` operator throws on non-object values
-			const defKeys = Reflect.ownKeys(defs)
-			for (const key of defKeys) {
-				type StrictPropIvReturn = IntermediateValidator<any, ValidationErrorOf<typeof defs[keyof typeof defs]>, object>
-				
-				yield* (strictProp(key, defs[key], opts) as StrictPropIvReturn)(obj)
+	(defs, opts = {}) => {
+		const extra = extraPropsModeOf(opts)
+		const defKeys = Reflect.ownKeys(defs)
+		type StrictPropIvReturn = IntermediateValidator<any, ValidationErrorOf<typeof defs[keyof typeof defs]>, object>
+		const propIvs = defKeys.map(key => [key, strictProp(key, defs[key], opts) as StrictPropIvReturn] as const)
+		return describedAs(transformerFor<object & PropsInput<typeof defs, NonNullable<typeof opts.partial>>>()(function*(obj: object) { // NOTE: the validator requires `object` because `in` operator throws on non-object values
+			let failed = false
+			// NOTE: the object is copied only if any of the property values is transformed
+			let transformed: Record<RealPropertyKey, unknown> | undefined
+			for (const [key, propIv] of propIvs) {
+				const res = yield* attempt(propIv(obj))
+				if (!res.ok) failed = true
+				else if (res.value !== obj) (transformed ??= { ...obj })[key] = res.value[key]
 			}
 			
-			const ownKeys = Reflect.ownKeys(obj)
-			if (!allowExtra) {
+			if (extra == 'reject') {
 				const defKeysSet = new Set(defKeys)
-				const extraKeys = ownKeys.filter(k => !defKeysSet.has(k))
+				const extraKeys = Reflect.ownKeys(obj).filter(k => !defKeysSet.has(k))
 				// NOTE: we cannot assume there is an extra property by number of keys, since there is `partial` option
-				if (extraKeys.length > 0) {
-					const EXTRA_ELLIPSIS_COUNT = 5
-					
-					const extraKeysDetails = [
-						// NOTE: symbols may be included, so manually stringify the keys
-						...extraKeys.slice(0, EXTRA_ELLIPSIS_COUNT).map(k => k.toString()),
-						...extraKeys.length > EXTRA_ELLIPSIS_COUNT
-							? [`... ${extraKeys.length - EXTRA_ELLIPSIS_COUNT} more items`]
-							: [],
-					].join(', ')
-					
-					throw yield `The object have extra properties: ${extraKeysDetails}`
-				}
+				if (extraKeys.length > 0) throw yield codedError('extraProperties', { keys: extraKeys })
 			}
+			if (failed) giveUp()
 			
-			return obj as object & PropsReturn<typeof defs, NonNullable<typeof opts.partial>>
-		})
-	) satisfies PropsIv
+			const validated = transformed ?? obj
+			return (extra == 'strip' ? stripExtraPropsOf(validated, defs, { own: opts.own ?? true }) : validated) as object & PropsReturn<typeof defs, NonNullable<typeof opts.partial>>
+		}), propsDescriptor(defs, opts))
+	}
+) satisfies PropsIv
 
 /**
  * {@linkcode strictProps} that accepts any value.
@@ -606,7 +1120,7 @@ export const strictProps = (
  */
 export const props = (
 	(defs, opts = {}) =>
-		pipe(object, strictProps(defs, opts))
+		describedAs(pipe(object, strictProps(defs, opts)), propsDescriptor(defs, opts))
 ) satisfies PropsIv
 
 /**
@@ -616,13 +1130,154 @@ export const props = (
  * @see {@linkcode PropsOptions}
  */
 export const looseProps = (
-	(defs, opts = {}) =>
-		validator(function*(x: unknown) {
-			yield* strictProps(defs, opts)(Object(x))
-			return x as PropsReturn<typeof defs, NonNullable<typeof opts.partial>>
-		})
+	(defs, opts = {}) => {
+		const propsIv = strictProps(defs, opts)
+		return describedAs(transformerFor<PropsInput<typeof defs, NonNullable<typeof opts.partial>>>()(function*(x: unknown) {
+			const o = Object(x)
+			const transformed = yield* propsIv(o)
+			return (transformed === o ? x : transformed) as PropsReturn<typeof defs, NonNullable<typeof opts.partial>>
+		}), propsDescriptor(defs, opts))
+	}
 ) satisfies PropsIv
 
+type ShapeDefs = Record<RealPropertyKey, AnyIntermediateValidator>
+type MergeDefs<A, B> = { [K in keyof A | keyof B]: K extends keyof B ? B[K] : K extends keyof A ? A[K] : never }
+type OptionalDefs<Defs extends ShapeDefs, Keys extends keyof Defs> = {
+	[K in keyof Defs]: K extends Keys
+		? Defs[K] extends { readonly [propModifier]: unknown } ? Defs[K] : ReturnType<typeof optional<Defs[K]>>
+		: Defs[K]
+}
+type RequiredDefs<Defs extends ShapeDefs, Keys extends keyof Defs> = {
+	[K in keyof Defs]: K extends Keys
+		? Defs[K] extends { readonly [propModifier]: { kind: 'optional'; inner: infer Inner extends AnyIntermediateValidator } } ? Inner : Defs[K]
+		: Defs[K]
+}
+/**
+ * Options of {@linkcode shape}, which are {@linkcode PropsOptions} except `partial` since {@linkcode Shape.partial} covers it.
+ */
+export type ShapeOptions = Omit<PropsOptions, 'partial'>
+/**
+ * A validator by {@linkcode shape}, which can derive other shapes from its definition.
+ * Derived shapes keep the options of the original one.
+ */
+export type Shape<Defs extends ShapeDefs> = ReturnType<typeof props<Defs>> & {
+	readonly defs: Defs
+	readonly options: ShapeOptions
+	/**
+	 * @returns A shape with only the given properties.
+	 */
+	pick<const K extends keyof Defs>(keys: ReadonlyArray<K>): Shape<Pick<Defs, K>>
+	/**
+	 * @returns A shape without the given properties.
+	 */
+	omit<const K extends keyof Defs>(keys: ReadonlyArray<K>): Shape<Omit<Defs, K>>
+	/**
+	 * @returns A shape with the given properties added, which replace the existing ones with the same keys.
+	 */
+	extend<Ext extends ShapeDefs>(defs: Ext): Shape<MergeDefs<Defs, Ext>>
+	/**
+	 * {@linkcode Shape.extend} with the definition of the given shape.
+	 * Note that the options of the given shape are ignored.
+	 */
+	merge<Other extends ShapeDefs>(other: Shape<Other>): Shape<MergeDefs<Defs, Other>>
+	/**
+	 * Marks the given properties (or all properties if omitted) with {@linkcode optional}.
+	 * Properties that already have a modifier (e.g. {@linkcode withDefault}) are left as they are.
+	 */
+	partial<const K extends keyof Defs = keyof Defs>(keys?: ReadonlyArray<K>): Shape<OptionalDefs<Defs, K>>
+	/**
+	 * Removes {@linkcode optional} from the given properties (or all properties if omitted).
+	 * Note that properties with {@linkcode withDefault} are left as they are, since they never be missing in the output.
+	 */
+	required<const K extends keyof Defs = keyof Defs>(keys?: ReadonlyArray<K>): Shape<RequiredDefs<Defs, K>>
+}
+/**
+ * {@linkcode props} with a reusable definition, so that validators for related objects can be derived without copying the definition.
+ * 
+ * @example
+ * ```ts
+ * const User = shape({
+ *   id: number,
+ *   name: string,
+ *   email: optional(string),
+ * })
+ * const UserUpdate = User.omit(['id']).partial()
+ * // someValue: unknown
+ * if (is(someValue, UserUpdate)) {
+ *   // someValue: { name?: string; email?: string }
+ * }
+ * ```
+ * 
+ * @see {@linkcode ShapeOptions}
+ */
+export const shape = <Defs extends ShapeDefs>(defs: Defs, opts: ShapeOptions = {}): Shape<Defs> => {
+	const keys = Reflect.ownKeys(defs)
+	const derive = (mapped: Array<[RealPropertyKey, AnyIntermediateValidator]>) =>
+		shape(Object.fromEntries(mapped), opts) as never
+	const modifierOf = (iv: AnyIntermediateValidator) =>
+		(iv as { [propModifier]?: PropModifier })[propModifier]
+	
+	return Object.assign(props(defs, opts), {
+		defs,
+		options: opts,
+		pick: (picked: ReadonlyArray<PropertyKey>) =>
+			derive(keys.filter(k => picked.includes(k)).map(k => [k, defs[k]!])),
+		omit: (omitted: ReadonlyArray<PropertyKey>) =>
+			derive(keys.filter(k => !omitted.includes(k)).map(k => [k, defs[k]!])),
+		extend: (ext: ShapeDefs) =>
+			shape({ ...defs, ...ext }, opts) as never,
+		merge: (other: Shape<ShapeDefs>) =>
+			shape({ ...defs, ...other.defs }, opts) as never,
+		partial: (targets: ReadonlyArray<PropertyKey> = keys) =>
+			derive(keys.map(k => [k, targets.includes(k) && !modifierOf(defs[k]!) ? optional(defs[k]!) : defs[k]!])),
+		required: (targets: ReadonlyArray<PropertyKey> = keys) =>
+			derive(keys.map(k => {
+				const modifier = modifierOf(defs[k]!)
+				return [k, targets.includes(k) && modifier?.kind == 'optional' ? modifier.inner : defs[k]!]
+			})),
+	})
+}
+
+// e.g. '1' | 1 | 1n for the key `1`, and 'true' | true for the key `true`
+type TagOf<Key> =
+	Key extends symbol
+		? Key
+		: `${Key & (string | number)}` extends infer S extends string
+			? S | (S extends `${infer N extends number | bigint}` ? N : never) | (S extends `${infer B extends boolean}` ? B : never)
+			: never
+type TaggedUnionReturn<K extends RealPropertyKey, Defs extends Record<RealPropertyKey, AnyIntermediateValidator>> =
+	{ [Tag in keyof Defs]: ValidationTargetOf<Defs[Tag]> & Record<K, TagOf<Tag>> }[keyof Defs]
+type TaggedUnionInput<K extends RealPropertyKey, Defs extends Record<RealPropertyKey, AnyIntermediateValidator>> =
+	{ [Tag in keyof Defs]: ValidationInputOf<Defs[Tag]> & Record<K, TagOf<Tag>> }[keyof Defs]
+/**
+ * Validates the object passes the validator for the value of its discriminant property.
+ * Unlike {@linkcode or}, the discriminant is read only once, and only the matching validator runs.
+ * If the matching validator fails, the validator fails with its error as-is.
+ * The discriminant selects the key by its string form like property accesses, so numbers and booleans select keys such as `1` and `true`,
+ * and the narrowed type includes them (e.g. `'1' | 1 | 1n` for the key `1`).
+ * 
+ * @example
+ * ```ts
+ * const Shape = taggedUnion('kind', {
+ *   circle: props({ radius: number }),
+ *   square: props({ size: number }),
+ * })
+ * // someValue: unknown
+ * if (is(someValue, Shape)) {
+ *   // someValue: ({ radius: number } & { kind: 'circle' }) | ({ size: number } & { kind: 'square' })
+ * }
+ * ```
+ */
+export const taggedUnion = <K extends RealPropertyKey, Defs extends Record<RealPropertyKey, IntermediateValidator<any, any, object>>>(key: K, defs: Defs) =>
+	describedAs(transformerFor<TaggedUnionInput<K, Defs>>()(function*(x: unknown) {
+		const obj = yield* object(x)
+		const tag = (obj as Record<RealPropertyKey, unknown>)[key]
+		const defKey = tagKeyOf(defs, tag)
+		if (defKey === undefined) throw yield codedError('unknownTag', { key, tag, expected: Reflect.ownKeys(defs) })
+		
+		return (yield* lazyGenericIv(defs[defKey as keyof Defs]!)(obj as RequirementOf<Defs[keyof Defs]>)) as TaggedUnionReturn<K, Defs>
+	}), { kind: 'taggedUnion', key, children: defs })
+
 /**
  * Validates the object is a dictionary with key {@linkcode KT} and value {@linkcode VT}.
  * 
@@ -640,17 +1295,36 @@ export const strictDict = <KT extends KReq, KE, KReq extends RealPropertyKey, VT
 	keyIv: IntermediateValidator<KT, KE, KReq>,
 	valueIv: IntermediateValidator<VT, VE, VReq>,
 ) =>
-	validator(function*(x: object) {
+	describedAs(validator(function*(x: object) {
+		let failed = false
+		let changed = false
+		const entries: Array<[RealPropertyKey, unknown]> = []
 		for (const key of Reflect.ownKeys(x)) {
-			const k = yield* keyIv(key as any)
-			const value = x[k satisfies KT as never]
-			yield* wrapError(
-				valueIv,
-				`The value of property '${k.toString()}' did not pass the given validator.`,
-			)(value)
+			const keyRes = yield* attempt(keyIv(key as any))
+			if (!keyRes.ok) {
+				failed = true
+				continue
+			}
+			const k = keyRes.value
+			const value = x[key as never]
+			const valueRes = yield* attempt(wrapErrorAtOf(
+				valueIv(value),
+				codedError('invalidProperty', { key: k }),
+				[k],
+			))
+			if (!valueRes.ok) {
+				failed = true
+				continue
+			}
+			
+			if (k !== key || valueRes.value !== value) changed = true
+			entries.push([k, valueRes.value])
 		}
-		return x as object & Record<KT, VT>
-	})
+		if (failed) giveUp()
+		
+		// NOTE: the record is created again only if any of the keys or values is transformed
+		return (changed ? Object.fromEntries(entries) : x) as object & Record<KT, VT>
+	}), { kind: 'dict', children: { key: keyIv, value: valueIv } })
 /**
  * {@linkcode strictDict} that accepts any value.
  */
@@ -658,7 +1332,7 @@ export const dict = <KT extends KReq, KE, KReq extends RealPropertyKey, VT, VE>(
 	kIv: IntermediateValidator<KT, KE, KReq>,
 	vIv: IntermediateValidator<VT, VE, unknown>,
 ) =>
-	pipe(object, strictDict(kIv, vIv))
+	describedAs(pipe(object, strictDict(kIv, vIv)), { kind: 'dict', children: { key: kIv, value: vIv } })
 // NOTE: there is no `looseDict` since we guess there would be no demand for it
 
 /**
@@ -666,16 +1340,17 @@ export const dict = <KT extends KReq, KE, KReq extends RealPropertyKey, VT, VE>(
  * 
  * @see {@linkcode array}
  */
-export const arrayUnsafe = validatorFor<Array<any>>()(function*(x) {
-	if (!Array.isArray(x)) throw yield 'The value is not an array.'
+export const arrayUnsafe = describedAs(validatorFor<Array<any>>()(function*(x) {
+	if (!Array.isArray(x)) throw yield codedError('notArray')
 	return x
-})
+}), { kind: 'array' })
 /**
  * Validates the value is an array, regardless of types of its elements.
  */
 export const array = validatorFor<Array<unknown>>()(arrayUnsafe)
 /**
  * Validates the value is an array of specific type.
+ * If the given validator is a transformer, the validator produces a copy of the array with the transformed elements.
  * 
  * @example
  * ```ts
@@ -688,26 +1363,105 @@ export const array = validatorFor<Array<unknown>>()(arrayUnsafe)
  *   // someValue: { name: string; aliases: Array<string> }
  * }
  */
-export const arrayOf = <T, E>(iv: IntermediateValidator<T, E>) =>
-	validatorFor<Array<T>>()(function*(x) {
+export const arrayOf = <T, E, I = T>(iv: IntermediateValidator<T, E> & WithInput<I>) =>
+	describedAs(transformerFor<Array<I>>()(function*(x) {
 		const arr = yield* array(x)
 		
 		let idx = 0
+		let failed = false
+		// NOTE: the array is copied only if any of the elements is transformed
+		let transformed: Array<unknown> | undefined
 		for (const elem of arr) {
-			yield* wrapError(
-				iv,
-				`There is an element that did not pass the given validator at index ${idx}.`,
-			)(elem)
+			const res = yield* attempt(wrapErrorAtOf(
+				iv(elem),
+				codedError('invalidElement', { index: idx }),
+				[idx],
+			))
+			if (!res.ok) failed = true
+			else if (res.value !== elem) (transformed ??= [...arr])[idx] = res.value
 			
 			idx += 1
 		}
+		if (failed) giveUp()
 		
-		return arr as Array<T>
-	})
+		return (transformed ?? arr) as Array<T>
+	}), { kind: 'arrayOf', children: { element: iv } })
+/**
+ * {@linkcode arrayOf} that also requires at least one element.
+ * 
+ * @example
+ * ```ts
+ * // someValue: unknown
+ * if (is(someValue, nonEmptyArrayOf(string))) {
+ *   // someValue: [string, ...Array<string>]
+ *   const first = someValue[0] // string, not string | undefined
+ * }
+ * ```
+ */
+export const nonEmptyArrayOf = <T, E, I = T>(iv: IntermediateValidator<T, E> & WithInput<I>) => {
+	const elementsIv = arrayOf(iv)
+	return describedAs(transformerFor<[I, ...Array<I>]>()(function*(x) {
+		const arr = yield* elementsIv(x)
+		if (arr.length == 0) throw yield codedError('emptyArray')
+		
+		return arr as [T, ...Array<T>]
+	}), { kind: 'nonEmptyArrayOf', children: { element: iv } })
+}
+const elementModifier = Symbol('elementModifier')
+type ElementModifier =
+	| { kind: 'optional' }
+	| { kind: 'rest' }
+/**
+ * Marks the element as not required, on arguments of {@linkcode tuple}.
+ * Optional elements can be followed only by optional elements or a rest element.
+ * 
+ * @example
+ * ```ts
+ * // someValue: unknown
+ * if (is(someValue, tuple(string, optionalElement(number)))) {
+ *   // someValue: [string, number?]
+ * }
+ * ```
+ */
+export const optionalElement = <Iv extends AnyIntermediateValidator>(iv: Iv) =>
+	describedAs(Object.assign(
+		((x: RequirementOf<Iv>) => iv(x)) as Iv,
+		{ [elementModifier]: { kind: 'optional' } as const },
+	), { kind: 'optionalElement', children: { inner: iv } })
+/**
+ * Marks the element as any number of elements, on arguments of {@linkcode tuple}.
+ * There can be at most one rest element, and it can be followed only by required elements.
+ * 
+ * @example
+ * ```ts
+ * // someValue: unknown
+ * if (is(someValue, tuple(string, rest(number)))) {
+ *   // someValue: [string, ...Array<number>]
+ * }
+ * ```
+ */
+export const rest = <Iv extends AnyIntermediateValidator>(iv: Iv) =>
+	describedAs(Object.assign(
+		((x: RequirementOf<Iv>) => iv(x)) as Iv,
+		{ [elementModifier]: { kind: 'rest' } as const },
+	), { kind: 'rest', children: { inner: iv } })
+type ElementOf<Iv, Mode extends 'target' | 'input'> =
+	Iv extends AnyIntermediateValidator
+		? Mode extends 'target' ? ValidationTargetOf<Iv> : ValidationInputOf<Iv>
+		: never
+type ExtractEachElement<Ivs extends ReadonlyArray<unknown>, Mode extends 'target' | 'input'> =
+	Ivs extends [infer Head, ...infer Tail]
+		? Head extends { readonly [elementModifier]: { kind: 'rest' } }
+			? [...Array<ElementOf<Head, Mode>>, ...ExtractEachElement<Tail, Mode>]
+			: Head extends { readonly [elementModifier]: { kind: 'optional' } }
+				? [ElementOf<Head, Mode>?, ...ExtractEachElement<Tail, Mode>]
+				: [ElementOf<Head, Mode>, ...ExtractEachElement<Tail, Mode>]
+		: []
 /**
  * Validates the value is an array,
  * with specific length (the number of validators given),
  * with specific types at specific positions.
+ * {@linkcode optionalElement} and {@linkcode rest} relax the length.
  * 
  * @example
  * ```ts
@@ -716,20 +1470,152 @@ export const arrayOf = <T, E>(iv: IntermediateValidator<T, E>) =>
  *   // arr: [string, number]
  * }
  * ```
+ * 
+ * @throws {TypeError} If the order of modified elements is not allowed as a tuple type.
  */
-export const tuple = <Ivs extends Array<AnyUnknownRequirementIntermediateValidator>>(...ivs: TupleOnly<Ivs>) =>
-	validator(function*(x) {
+export const tuple = <Ivs extends Array<AnyUnknownRequirementIntermediateValidator>>(...ivs: TupleOnly<Ivs>) => {
+	const modifiers = ivs.map(iv => (iv as { [elementModifier]?: ElementModifier })[elementModifier]?.kind)
+	const restIdx = modifiers.indexOf('rest')
+	const firstOptionalIdx = modifiers.indexOf('optional')
+	if (restIdx != modifiers.lastIndexOf('rest')) throw new TypeError('There can be at most one rest element.')
+	if (restIdx != -1 && modifiers.lastIndexOf('optional') > restIdx) throw new TypeError('An optional element cannot follow a rest element.')
+	if (firstOptionalIdx != -1 && modifiers.slice(firstOptionalIdx).includes(undefined)) throw new TypeError('A required element cannot follow an optional element.')
+	
+	// NOTE: elements are matched as [...leading, ...Array<rest>, ...trailing]
+	const leading = restIdx == -1 ? ivs : ivs.slice(0, restIdx)
+	const restIv = restIdx == -1 ? undefined : ivs[restIdx]
+	const trailing = restIdx == -1 ? [] : ivs.slice(restIdx + 1)
+	const minLength = modifiers.filter(modifier => modifier === undefined).length
+	const maxLength = restIv ? Infinity : ivs.length
+	
+	return describedAs(transformerFor<ExtractEachElement<Ivs, 'input'>>()(function*(x) {
 		const arr = yield* array(x)
-		if (arr.length !== ivs.length) throw yield `The array has unexpected length. Expected: ${ivs.length} Actual: ${arr.length}`
+		if (arr.length < minLength || arr.length > maxLength) throw yield codedError('unexpectedLength', { min: minLength, max: maxLength, actual: arr.length })
 		
+		const trailingStart = arr.length - trailing.length
 		let idx = 0
+		let failed = false
+		let transformed: Array<unknown> | undefined
 		for (const elem of arr) {
-			yield* wrapError(
-				ivs[idx] as IntermediateValidator<any, ValidationErrorOf<Ivs[number]>>,
-				`There is an element that did not pass the given validator at index ${idx}.`,
-			)(elem)
+			const iv = idx >= trailingStart ? trailing[idx - trailingStart] : leading[idx] ?? restIv
+			const res = yield* attempt(wrapErrorAtOf(
+				(iv as IntermediateValidator<any, ValidationErrorOf<Ivs[number]>>)(elem),
+				codedError('invalidElement', { index: idx }),
+				[idx],
+			))
+			if (!res.ok) failed = true
+			else if (res.value !== elem) (transformed ??= [...arr])[idx] = res.value
 			idx += 1
 		}
+		if (failed) giveUp()
 		
-		return arr satisfies Array<unknown> as ExtractEachValidationTarget<Ivs>
-	})
+		return (transformed ?? arr) satisfies Array<unknown> as ExtractEachElement<Ivs, 'target'>
+	}), { kind: 'tuple', children: ivs })
+}
+/**
+ * Validates the value is a {@linkcode Map} whose keys and values pass the given validators.
+ * If there are transformers, the validator produces a new map with the transformed keys and values.
+ * 
+ * @example
+ * ```ts
+ * // someValue: unknown
+ * if (is(someValue, mapOf(string, number))) {
+ *   // someValue: Map<string, number>
+ * }
+ * ```
+ */
+export const mapOf = <KT, KE, VT, VE, KI = KT, VI = VT>(
+	keyIv: IntermediateValidator<KT, KE> & WithInput<KI>,
+	valueIv: IntermediateValidator<VT, VE> & WithInput<VI>,
+) =>
+	describedAs(transformerFor<Map<KI, VI>>()(function*(x) {
+		const m = yield* map(x)
+		
+		let idx = 0
+		let failed = false
+		let changed = false
+		const entries: Array<[unknown, unknown]> = []
+		for (const [key, value] of m) {
+			// NOTE: keys are not locations of values, so key errors have the key and the index of the entry but no path
+			const keyRes = yield* attempt(wrapErrorOf(keyIv(key), codedError('invalidMapKey', { key, index: idx })))
+			idx += 1
+			const message = codedError('invalidMapValue', { key })
+			const valueRes = yield* attempt(
+				// NOTE: keys other than property keys cannot be a part of paths
+				typeof key == 'string' || typeof key == 'number' || typeof key == 'symbol'
+					? wrapErrorAtOf(valueIv(value), message, [key])
+					: wrapErrorOf(valueIv(value), message)
+			)
+			if (!keyRes.ok || !valueRes.ok) {
+				failed = true
+				continue
+			}
+			
+			if (keyRes.value !== key || valueRes.value !== value) changed = true
+			entries.push([keyRes.value, valueRes.value])
+		}
+		if (failed) giveUp()
+		
+		// NOTE: the map is created again only if any of the keys or values is transformed
+		return (changed ? new Map(entries) : m) as Map<KT, VT>
+	}), { kind: 'mapOf', children: { key: keyIv, value: valueIv } })
+/**
+ * {@linkcode mapOf} that narrows the value to a {@linkcode ReadonlyMap}.
+ */
+export const readonlyMapOf = <KT, KE, VT, VE, KI = KT, VI = VT>(
+	keyIv: IntermediateValidator<KT, KE> & WithInput<KI>,
+	valueIv: IntermediateValidator<VT, VE> & WithInput<VI>,
+) =>
+	mapOf(keyIv, valueIv) as Transformer<ReadonlyMap<KI, VI>, ReadonlyMap<KT, VT>, ValidationErrorOf<ReturnType<typeof mapOf<KT, KE, VT, VE, KI, VI>>>>
+/**
+ * Validates the value is a {@linkcode Set} whose elements pass the given validator.
+ * Errors are reported at the index of the element in iteration order.
+ * If the given validator is a transformer, the validator produces a new set with the transformed elements.
+ */
+export const setOf = <T, E, I = T>(iv: IntermediateValidator<T, E> & WithInput<I>) => {
+	const elementsIv = arrayOf(iv)
+	return describedAs(transformerFor<Set<I>>()(function*(x) {
+		const s = yield* set(x)
+		
+		const origElems = [...s]
+		const elems = yield* elementsIv(origElems)
+		// NOTE: the set is created again only if any of the elements is transformed
+		return (elems === origElems ? s : new Set(elems)) as Set<T>
+	}), { kind: 'setOf', children: { element: iv } })
+}
+/**
+ * Validates the value is a synchronous iterable object whose elements pass the given validator.
+ * Note that the validator produces an array of the (transformed) elements, since some iterables such as generators can be iterated only once.
+ * Note also that strings are not accepted, although they are iterable.
+ * The elements are validated while iterating, so the validation of an infinite iterable ends at the first failure,
+ * but never ends if all of the elements pass (or while {@linkcode validateAll} is collecting errors).
+ * 
+ * @example
+ * ```ts
+ * validate(new Set(['a']).values(), iterableOf(string)) // { ok: true, value: ['a'] }
+ * ```
+ */
+export const iterableOf = <T, E, I = T>(iv: IntermediateValidator<T, E> & WithInput<I>) =>
+	describedAs(transformerFor<Iterable<I>>()(function*(x) {
+		const obj = yield* object(x)
+		if (typeof (obj as Partial<Iterable<unknown>>)[Symbol.iterator] != 'function') throw yield codedError('notIterable')
+		
+		let idx = 0
+		let failed = false
+		const elems: Array<T> = []
+		// NOTE: each element is validated as it is iterated, so that the validation stops at the first failure
+		for (const elem of obj as Iterable<unknown>) {
+			const res = yield* attempt(wrapErrorAtOf(
+				iv(elem),
+				codedError('invalidElement', { index: idx }),
+				[idx],
+			))
+			if (!res.ok) failed = true
+			else elems.push(res.value)
+			
+			idx += 1
+		}
+		if (failed) giveUp()
+		
+		return elems
+	}), { kind: 'iterableOf', children: { element: iv } })
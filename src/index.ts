@@ -1,12 +1,29 @@
 export {
 	type IntermediateValidator, type Validator, type ValidationTargetOf, type ValidationErrorOf, type RequirementOf,
-	validator, validatorFor,
+	type Transformer, type WithInput, type ValidationInputOf, type ValidationOutputOf,
+	validator, validatorFor, transformerFor,
+	brand, type Brand,
 	require,
-	mapError, wrapError, type ErrorWithCause,
-	validate,
+	mapError, wrapError, wrapErrorAt, type ErrorWithCause, type ErrorWithPath, type Path,
+	errorWithCause, errorWithPath, isErrorWithCause, errorWithCauses, isErrorWithCauses, getLeafError, formatError, type FormatErrorOptions,
+	validate, validateAll, attempt, giveUp,
 	type Result, type Ok, type Fail, ok, fail,
 } from './validator.js'
 export * from './predicate.js'
 export * from './assert.js'
 export * from './helper.js'
 export * from './prelude.js'
+export * from './async.js'
+export * from './refinement.js'
+export * from './schema.js'
+export * from './message.js'
+export { compile } from './compile.js'
+export {
+	describe, type Descriptor,
+	type PrimitiveDescriptor, type TypedArrayDescriptor, type CoerceDescriptor, type EqualDescriptor, type OneOfDescriptor, type TemplateLiteralDescriptor, type InstanceOfDescriptor,
+	type KeyOfDescriptor, type PropValueOfDescriptor,
+	type LengthDescriptor, type UniqueItemsDescriptor, type RegexDescriptor, type AffixDescriptor, type FormatDescriptor,
+	type BoundDescriptor, type BetweenDescriptor, type MultipleOfDescriptor,
+	type CombinatorDescriptor, type WrapperDescriptor, type MapErrorDescriptor, type LazyDescriptor, type WrapErrorDescriptor, type TransformDescriptor, type WithDefaultDescriptor,
+	type PropDescriptor, type PropsDescriptor, type TaggedUnionDescriptor, type DictDescriptor, type ArrayOfDescriptor,
+} from './descriptor.js'
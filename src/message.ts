@@ -0,0 +1,424 @@
+import type { RealPropertyKey } from './helper.js'
+import type { TypedArrayDescriptor } from './descriptor.js'
+import { stringifyValue } from './util.js'
+
+/**
+ * Parameters of each error code.
+ * The English messages of codes are shown as the examples.
+ */
+export interface ErrorMessageParams {
+	// combinators
+	/**
+	 * The value passed the given validator, although it should not, since the validator is negated.
+	 */
+	negated: {}
+	/**
+	 * The value did not pass any of the given validators.
+	 */
+	noneOf: {}
+	/**
+	 * The value did not pass all of the given validators.
+	 */
+	notAll: {}
+	/**
+	 * The value passed more than one of the given validators.
+	 */
+	moreThanOneOf: {}
+	
+	// values
+	/**
+	 * The values are not equal.
+	 */
+	notEqual: { expected: unknown }
+	/**
+	 * The value is none of the given values.
+	 */
+	notOneOf: { expected: Array<unknown> }
+	/**
+	 * The value is not an instance of `Foo`.
+	 */
+	notInstanceOf: { class: abstract new (...args: any) => unknown }
+	/**
+	 * The schema does not allow any value.
+	 */
+	nothingAllowed: {}
+	
+	// types
+	/**
+	 * The value is not a string.
+	 */
+	notString: {}
+	/**
+	 * The value is not a number.
+	 */
+	notNumber: {}
+	/**
+	 * The value is not a boolean.
+	 */
+	notBoolean: {}
+	/**
+	 * The value is not a BigInt.
+	 */
+	notBigInt: {}
+	/**
+	 * The value is not null.
+	 */
+	notNull: {}
+	/**
+	 * The value is not undefined.
+	 */
+	notUndefined: {}
+	/**
+	 * The value is not a symbol.
+	 */
+	notSymbol: {}
+	/**
+	 * The value is not a function.
+	 */
+	notFunction: {}
+	/**
+	 * The value is not an object.
+	 */
+	notObject: {}
+	/**
+	 * The value is not an array.
+	 */
+	notArray: {}
+	/**
+	 * The value is not iterable.
+	 */
+	notIterable: {}
+	
+	// built-in objects
+	/**
+	 * The value is not a Date.
+	 */
+	notDate: {}
+	/**
+	 * The value is not a valid Date.
+	 */
+	invalidDate: {}
+	/**
+	 * The value is not a RegExp.
+	 */
+	notRegExp: {}
+	/**
+	 * The value is not a Map.
+	 */
+	notMap: {}
+	/**
+	 * The value is not a Set.
+	 */
+	notSet: {}
+	/**
+	 * The value is not an ArrayBuffer.
+	 */
+	notArrayBuffer: {}
+	/**
+	 * The value is not a Uint8Array.
+	 */
+	notTypedArray: { name: TypedArrayDescriptor['name'] }
+	/**
+	 * The value is not thenable.
+	 */
+	notThenable: {}
+	/**
+	 * The value is not an Error.
+	 */
+	notError: {}
+	
+	// coercions
+	/**
+	 * The value is not convertible to a number.
+	 */
+	notConvertibleToNumber: {}
+	/**
+	 * The value is not convertible to a boolean.
+	 */
+	notConvertibleToBoolean: {}
+	/**
+	 * The value is not convertible to a valid date.
+	 */
+	notConvertibleToDate: {}
+	
+	// objects
+	/**
+	 * The given object does not contain own property 'foo'.
+	 */
+	missingKey: { key: PropertyKey; own: boolean }
+	/**
+	 * The value is none of the value of own properties of the given object.
+	 */
+	notPropValue: {}
+	/**
+	 * The value of property 'foo' did not pass the given validator.
+	 */
+	invalidProperty: { key: RealPropertyKey }
+	/**
+	 * The object have extra properties: foo, bar
+	 */
+	extraProperties: { keys: Array<RealPropertyKey> }
+	/**
+	 * Unknown kind 'foo', expected one of 'bar', 'baz'.
+	 */
+	unknownTag: { key: RealPropertyKey; tag: unknown; expected: Array<RealPropertyKey> }
+	
+	// collections
+	/**
+	 * There is an element that did not pass the given validator at index 0.
+	 */
+	invalidElement: { index: number }
+	/**
+	 * The value of key 'foo' did not pass the given validator.
+	 */
+	invalidMapValue: { key: unknown }
+	/**
+	 * The key 'foo' of the entry at index 0 did not pass the given validator.
+	 */
+	invalidMapKey: { key: unknown; index: number }
+	/**
+	 * The array is empty.
+	 */
+	emptyArray: {}
+	/**
+	 * The array has unexpected length. Expected: 2 Actual: 0
+	 */
+	unexpectedLength: { min: number; max: number; actual: number }
+	/**
+	 * The array has too few elements. Expected: at least 1 Actual: 0
+	 */
+	tooFewItems: { min: number; actual: number }
+	/**
+	 * The array has too many elements. Expected: at most 1 Actual: 2
+	 */
+	tooManyItems: { max: number; actual: number }
+	/**
+	 * The element at index 1 is a duplicate of the element at index 0.
+	 */
+	duplicateItem: { index: number; firstIndex: number }
+	
+	// strings
+	/**
+	 * The string is too short. Expected: at least 1 Actual: 0
+	 */
+	tooShort: { min: number; actual: number }
+	/**
+	 * The string is too long. Expected: at most 1 Actual: 2
+	 */
+	tooLong: { max: number; actual: number }
+	/**
+	 * The string does not match the pattern /foo/.
+	 */
+	patternMismatch: { pattern: RegExp }
+	/**
+	 * The string does not match the template `user-${number}`.
+	 */
+	templateMismatch: { template: string }
+	/**
+	 * The string does not start with 'foo'.
+	 */
+	notStartsWith: { prefix: string }
+	/**
+	 * The string does not end with 'foo'.
+	 */
+	notEndsWith: { suffix: string }
+	/**
+	 * The string is not a valid email address.
+	 */
+	invalidEmail: {}
+	/**
+	 * The string is not a valid UUID.
+	 */
+	invalidUuid: {}
+	/**
+	 * The string is not a valid URL.
+	 */
+	invalidUrl: {}
+	/**
+	 * The string is not a valid ISO 8601 date.
+	 */
+	invalidIsoDate: {}
+	/**
+	 * The string is not a valid ISO 8601 date-time.
+	 */
+	invalidIsoDateTime: {}
+	
+	// numbers
+	/**
+	 * The number is not an integer.
+	 */
+	notInteger: {}
+	/**
+	 * The number is not a safe integer.
+	 */
+	notSafeInteger: {}
+	/**
+	 * The number is not finite.
+	 */
+	notFinite: {}
+	/**
+	 * The number is less than 0.
+	 */
+	tooSmall: { value: number | bigint; min: number | bigint; exclusive: boolean }
+	/**
+	 * The number is greater than 0.
+	 */
+	tooLarge: { value: number | bigint; max: number | bigint; exclusive: boolean }
+	/**
+	 * The number is not a multiple of 2.
+	 */
+	notMultipleOf: { value: number | bigint; divisor: number | bigint }
+}
+export type ErrorCode = keyof ErrorMessageParams
+/**
+ * A message catalog, which turns each error code and its parameters into a message.
+ */
+export type ErrorMessages = {
+	[C in ErrorCode]: (params: ErrorMessageParams[C]) => string
+}
+
+const EXTRA_ELLIPSIS_COUNT = 5
+const nounOf = (x: number | bigint) =>
+	typeof x == 'bigint' ? 'bigint' : 'number'
+
+/**
+ * The default message catalog, in English.
+ */
+export const englishErrorMessages: ErrorMessages = {
+	negated: () => 'The value passed the given validator, although it should not, since the validator is negated.',
+	noneOf: () => 'The value did not pass any of the given validators.',
+	notAll: () => 'The value did not pass all of the given validators.',
+	moreThanOneOf: () => 'The value passed more than one of the given validators.',
+	
+	notEqual: () => 'The values are not equal.',
+	notOneOf: () => 'The value is none of the given values.',
+	notInstanceOf: ({ class: Class }) => `The value is not an instance of \`${Class.name || Class}\`.`,
+	nothingAllowed: () => 'The schema does not allow any value.',
+	
+	notString: () => 'The value is not a string.',
+	notNumber: () => 'The value is not a number.',
+	notBoolean: () => 'The value is not a boolean.',
+	notBigInt: () => 'The value is not a BigInt.',
+	notNull: () => 'The value is not null.',
+	notUndefined: () => 'The value is not undefined.',
+	notSymbol: () => 'The value is not a symbol.',
+	notFunction: () => 'The value is not a function.',
+	notObject: () => 'The value is not an object.',
+	notArray: () => 'The value is not an array.',
+	notIterable: () => 'The value is not iterable.',
+	
+	notDate: () => 'The value is not a Date.',
+	invalidDate: () => 'The value is not a valid Date.',
+	notRegExp: () => 'The value is not a RegExp.',
+	notMap: () => 'The value is not a Map.',
+	notSet: () => 'The value is not a Set.',
+	notArrayBuffer: () => 'The value is not an ArrayBuffer.',
+	notTypedArray: ({ name }) => `The value is not ${/^[AEIOU]/.test(name) ? 'an' : 'a'} ${name}.`,
+	notThenable: () => 'The value is not thenable.',
+	notError: () => 'The value is not an Error.',
+	
+	notConvertibleToNumber: () => 'The value is not convertible to a number.',
+	notConvertibleToBoolean: () => 'The value is not convertible to a boolean.',
+	notConvertibleToDate: () => 'The value is not convertible to a valid date.',
+	
+	missingKey: ({ key, own }) => `The given object does not contain ${own ? 'own ' : ''}property '${key.toString()}'.`,
+	notPropValue: () => 'The value is none of the value of own properties of the given object.',
+	invalidProperty: ({ key }) => `The value of property '${key.toString()}' did not pass the given validator.`,
+	extraProperties: ({ keys }) => {
+		const details = [
+			// NOTE: symbols may be included, so manually stringify the keys
+			...keys.slice(0, EXTRA_ELLIPSIS_COUNT).map(k => k.toString()),
+			...keys.length > EXTRA_ELLIPSIS_COUNT
+				? [`... ${keys.length - EXTRA_ELLIPSIS_COUNT} more items`]
+				: [],
+		].join(', ')
+		return `The object have extra properties: ${details}`
+	},
+	unknownTag: ({ key, tag, expected }) =>
+		`Unknown ${key.toString()} ${stringifyValue(tag)}, expected one of ${expected.map(stringifyValue).join(', ')}.`,
+	
+	invalidElement: ({ index }) => `There is an element that did not pass the given validator at index ${index}.`,
+	invalidMapValue: ({ key }) => `The value of key ${stringifyValue(key)} did not pass the given validator.`,
+	invalidMapKey: ({ key, index }) => `The key ${stringifyValue(key)} of the entry at index ${index} did not pass the given validator.`,
+	emptyArray: () => 'The array is empty.',
+	unexpectedLength: ({ min, max, actual }) => {
+		const expected =
+			min == max
+				? `${min}`
+				: max == Infinity
+					? `at least ${min}`
+					: `${min} to ${max}`
+		return `The array has unexpected length. Expected: ${expected} Actual: ${actual}`
+	},
+	tooFewItems: ({ min, actual }) => `The array has too few elements. Expected: at least ${min} Actual: ${actual}`,
+	tooManyItems: ({ max, actual }) => `The array has too many elements. Expected: at most ${max} Actual: ${actual}`,
+	duplicateItem: ({ index, firstIndex }) => `The element at index ${index} is a duplicate of the element at index ${firstIndex}.`,
+	
+	tooShort: ({ min, actual }) => `The string is too short. Expected: at least ${min} Actual: ${actual}`,
+	tooLong: ({ max, actual }) => `The string is too long. Expected: at most ${max} Actual: ${actual}`,
+	patternMismatch: ({ pattern }) => `The string does not match the pattern ${pattern}.`,
+	templateMismatch: ({ template }) => `The string does not match the template \`${template}\`.`,
+	notStartsWith: ({ prefix }) => `The string does not start with '${prefix}'.`,
+	notEndsWith: ({ suffix }) => `The string does not end with '${suffix}'.`,
+	invalidEmail: () => 'The string is not a valid email address.',
+	invalidUuid: () => 'The string is not a valid UUID.',
+	invalidUrl: () => 'The string is not a valid URL.',
+	invalidIsoDate: () => 'The string is not a valid ISO 8601 date.',
+	invalidIsoDateTime: () => 'The string is not a valid ISO 8601 date-time.',
+	
+	notInteger: () => 'The number is not an integer.',
+	notSafeInteger: () => 'The number is not a safe integer.',
+	notFinite: () => 'The number is not finite.',
+	tooSmall: ({ value, min, exclusive }) => `The ${nounOf(value)} is less than ${exclusive ? 'or equal to ' : ''}${min}.`,
+	tooLarge: ({ value, max, exclusive }) => `The ${nounOf(value)} is greater than ${exclusive ? 'or equal to ' : ''}${max}.`,
+	notMultipleOf: ({ value, divisor }) => `The ${nounOf(value)} is not a multiple of ${divisor}.`,
+}
+
+/**
+ * An error of built-in validators, which carries an error code and its parameters instead of a message.
+ * Messages are made from it by {@linkcode formatMessage}, when the error is shown.
+ */
+export type CodedError<C extends ErrorCode = ErrorCode> = {
+	[K in C]: { code: K; params: ErrorMessageParams[K] }
+}[C]
+/**
+ * Creates an error of the code.
+ * This is useful for custom validators that share codes with built-ins.
+ * 
+ * @example
+ * ```ts
+ * const myString = validator(function*(x) {
+ *   if (typeof x != 'string') throw yield codedError('notString')
+ *   return x
+ * })
+ * ```
+ */
+export const codedError = <C extends ErrorCode>(
+	code: C,
+	...[params]: {} extends ErrorMessageParams[C] ? [params?: ErrorMessageParams[C]] : [params: ErrorMessageParams[C]]
+) =>
+	({ code, params: params ?? {} }) as CodedError<C>
+/**
+ * @returns Whether the value is an error with a known code, such as ones created by {@linkcode codedError}.
+ */
+export const isCodedError = (x: unknown): x is CodedError =>
+	typeof x == 'object' && x !== null
+		&& 'code' in x && typeof x.code == 'string' && Object.prototype.hasOwnProperty.call(englishErrorMessages, x.code)
+		&& 'params' in x && typeof x.params == 'object' && x.params !== null
+/**
+ * Makes a message of the error by the message catalog.
+ * Messages of codes that are not in the catalog fall back to {@linkcode englishErrorMessages}.
+ * Since the catalog is given on each call, messages in different languages can be made at the same time.
+ * 
+ * @example
+ * ```ts
+ * const korean: Partial<ErrorMessages> = {
+ *   notString: () => '문자열이 아닙니다.',
+ *   tooShort: ({ min, actual }) => `${min}자 이상이어야 합니다. (현재 ${actual}자)`,
+ * }
+ * formatMessage(codedError('notString'), korean) // '문자열이 아닙니다.'
+ * formatMessage(codedError('notString')) // 'The value is not a string.'
+ * ```
+ */
+export const formatMessage = ({ code, params }: CodedError, messages: Partial<ErrorMessages> = {}) =>
+	((messages[code] ?? englishErrorMessages[code]) as (params: unknown) => string)(params)
@@ -1,13 +1,16 @@
-import { validate, type IntermediateValidator } from './validator.js'
+import { validate, type IntermediateValidator, type WithInput } from './validator.js'
+import { fastPathOf, isFailure } from './compile.js'
 
 /**
  * @returns A predicate function that returns whether the value passes the given validator.
+ * Note that the value is narrowed to the type that the validator checks, even if it is a {@linkcode Transformer}.
  */
-export function is<T extends Req, Req>(iv: IntermediateValidator<T, any, Req>): (x: Req) => x is T & Req
+export function is<T extends Req, Req, I = T>(iv: IntermediateValidator<T, any, Req> & WithInput<I>): (x: Req) => x is I & Req
 /**
  * @returns Whether the value passes the given validator.
+ * Note that the value is narrowed to the type that the validator checks, even if it is a {@linkcode Transformer}.
  */
-export function is<T extends Req, Req>(x: NoInfer<Req>, iv: IntermediateValidator<T, any, Req>): x is T & Req
+export function is<T extends Req, Req, I = T>(x: NoInfer<Req>, iv: IntermediateValidator<T, any, Req> & WithInput<I>): x is I & Req
 export function is<T extends Req, Req>(
 	...[xOrIv, iv]:
 		| [x: NoInfer<Req>, iv: IntermediateValidator<T, any, Req>]
@@ -15,5 +18,9 @@ export function is<T extends Req, Req>(
 ) {
 	if (!iv) return (x: Req) => is(x, xOrIv)
 	
+	// NOTE: built-ins are checked without allocating anything
+	const fast = fastPathOf(iv)
+	if (fast) return !isFailure(fast(xOrIv))
+	
 	return validate(xOrIv, iv).ok
 }
@@ -0,0 +1,367 @@
+import { validator, validatorFor } from './validator.js'
+import { describedAs } from './descriptor.js'
+import { codedError, type CodedError } from './message.js'
+
+// strings
+
+/**
+ * Validates the string has at least the given number of characters.
+ * Note that the length is measured in UTF-16 code units, as {@linkcode String.prototype.length} does.
+ * 
+ * @example
+ * ```ts
+ * const Username = pipe(string, minLength(3))
+ * ```
+ */
+export const minLength = (length: number) =>
+	describedAs(validator(function*(x: string) {
+		if (x.length < length) throw yield codedError('tooShort', { min: length, actual: x.length })
+		
+		return x
+	}), { kind: 'minLength', value: length })
+/**
+ * Validates the string has at most the given number of characters.
+ * Note that the length is measured in UTF-16 code units, as {@linkcode String.prototype.length} does.
+ */
+export const maxLength = (length: number) =>
+	describedAs(validator(function*(x: string) {
+		if (x.length > length) throw yield codedError('tooLong', { max: length, actual: x.length })
+		
+		return x
+	}), { kind: 'maxLength', value: length })
+/**
+ * Validates the string is not empty.
+ */
+export const nonEmpty = minLength(1)
+
+/**
+ * Validates the string matches the given regular expression.
+ * The `g` and `y` flags are ignored, so the result does not depend on previous validations.
+ * 
+ * @example
+ * ```ts
+ * const Slug = pipe(string, regex(/^[a-z0-9-]+$/))
+ * ```
+ */
+export const regex = (pattern: RegExp) => {
+	// NOTE: `RegExp.prototype.test` of global or sticky regular expressions starts from `lastIndex`
+	const stateless = new RegExp(pattern.source, pattern.flags.replace(/[gy]/g, ''))
+	
+	return describedAs(validator(function*(x: string) {
+		if (!stateless.test(x)) throw yield codedError('patternMismatch', { pattern: stateless })
+		
+		return x
+	}), { kind: 'regex', pattern: stateless })
+}
+
+/**
+ * Validates the string starts with the given prefix.
+ * 
+ * @example
+ * ```ts
+ * // someValue: string
+ * if (is(someValue, startsWith('user-'))) {
+ *   // someValue: `user-${string}`
+ * }
+ * ```
+ */
+export const startsWith = <const P extends string>(prefix: P) =>
+	describedAs(validatorFor<`${P}${string}`>()(function*(x: string) {
+		if (!x.startsWith(prefix)) throw yield codedError('notStartsWith', { prefix })
+		
+		return x as `${P}${string}`
+	}), { kind: 'startsWith', value: prefix })
+/**
+ * Validates the string ends with the given suffix.
+ * 
+ * @example
+ * ```ts
+ * // someValue: string
+ * if (is(someValue, endsWith('.json'))) {
+ *   // someValue: `${string}.json`
+ * }
+ * ```
+ */
+export const endsWith = <const S extends string>(suffix: S) =>
+	describedAs(validatorFor<`${string}${S}`>()(function*(x: string) {
+		if (!x.endsWith(suffix)) throw yield codedError('notEndsWith', { suffix })
+		
+		return x as `${string}${S}`
+	}), { kind: 'endsWith', value: suffix })
+
+// NOTE: the same as what `<input type="email">` accepts
+const EMAIL_PATTERN = /^[a-zA-Z0-9.!#$%&'*+/=?^_`{|}~-]+@[a-zA-Z0-9](?:[a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?(?:\.[a-zA-Z0-9](?:[a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?)*$/
+/**
+ * Validates the string is an email address, in the same way as `<input type="email">` does.
+ */
+export const email = describedAs(validator(function*(x: string) {
+	if (!EMAIL_PATTERN.test(x)) throw yield codedError('invalidEmail')
+	
+	return x
+}), { kind: 'format', format: 'email' })
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+/**
+ * Validates the string is a UUID, in the 8-4-4-4-12 hexadecimal format.
+ * Any version and variant are accepted.
+ */
+export const uuid = describedAs(validator(function*(x: string) {
+	if (!UUID_PATTERN.test(x)) throw yield codedError('invalidUuid')
+	
+	return x
+}), { kind: 'format', format: 'uuid' })
+
+/**
+ * Validates the string is an absolute URL, which the {@linkcode URL} constructor accepts.
+ */
+export const url = describedAs(validator(function*(x: string) {
+	if (!URL.canParse(x)) throw yield codedError('invalidUrl')
+	
+	return x
+}), { kind: 'format', format: 'url' })
+
+const isLeapYear = (year: number) =>
+	year % 4 == 0 && (year % 100 != 0 || year % 400 == 0)
+const daysInMonth = (year: number, month: number) =>
+	month == 2
+		? isLeapYear(year) ? 29 : 28
+		: [4, 6, 9, 11].includes(month) ? 30 : 31
+const isValidDate = (year: number, month: number, day: number) =>
+	1 <= month && month <= 12 && 1 <= day && day <= daysInMonth(year, month)
+
+const ISO_DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/
+/**
+ * Validates the string is a calendar date in the ISO 8601 extended format, such as `2024-02-29`.
+ */
+export const isoDate = describedAs(validator(function*(x: string) {
+	const match = ISO_DATE_PATTERN.exec(x)
+	if (!match || !isValidDate(Number(match[1]), Number(match[2]), Number(match[3]))) {
+		throw yield codedError('invalidIsoDate')
+	}
+	
+	return x
+}), { kind: 'format', format: 'isoDate' })
+
+const ISO_DATE_TIME_PATTERN = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?(?:Z|[+-](\d{2}):(\d{2}))$/
+/**
+ * Validates the string is a date and time in the ISO 8601 extended format, such as `2024-02-29T12:34:56.789Z`.
+ * Seconds and fractions of a second may be omitted, but the time zone designator is required, so the string denotes an instant.
+ */
+export const isoDateTime = describedAs(validator(function*(x: string) {
+	const match = ISO_DATE_TIME_PATTERN.exec(x)
+	if (!match) throw yield codedError('invalidIsoDateTime')
+	
+	const [year, month, day, hour, minute, second = 0, offsetHour = 0, offsetMinute = 0] = match.slice(1).map(part => part === undefined ? undefined : Number(part))
+	if (
+		!isValidDate(year!, month!, day!)
+		|| hour! > 23 || minute! > 59 || second > 59
+		|| offsetHour > 23 || offsetMinute > 59
+	) {
+		throw yield codedError('invalidIsoDateTime')
+	}
+	
+	return x
+}), { kind: 'format', format: 'isoDateTime' })
+
+// numbers
+
+type Numeric<N extends number | bigint> = N extends number ? number : bigint
+
+/**
+ * Validates the number is an integer.
+ * Note that bigints are always integers, so they always pass the validator.
+ */
+export const integer = describedAs(validator(function*(x: number | bigint) {
+	if (typeof x == 'number' && !Number.isInteger(x)) throw yield codedError('notInteger')
+	
+	return x
+}), { kind: 'integer' })
+/**
+ * Validates the number is an integer that can be exactly represented as a number, i.e. between `-(2 ** 53 - 1)` and `2 ** 53 - 1`.
+ * Bigints in the range also pass the validator.
+ */
+export const safeInteger = describedAs(validator(function*(x: number | bigint) {
+	if (!Number.isSafeInteger(typeof x == 'bigint' ? Number(x) : x)) throw yield codedError('notSafeInteger')
+	
+	return x
+}), { kind: 'safeInteger' })
+/**
+ * Validates the number is neither `NaN` nor infinite.
+ * Note that bigints are always finite, so they always pass the validator.
+ */
+export const finite = describedAs(validator(function*(x: number | bigint) {
+	if (typeof x == 'number' && !Number.isFinite(x)) throw yield codedError('notFinite')
+	
+	return x
+}), { kind: 'finite' })
+
+export interface BoundOptions {
+	/**
+	 * Whether the value should not be equal to the bound.
+	 * 
+	 * @default false
+	 */
+	exclusive?: boolean
+}
+function* checkMin(x: number | bigint, bound: number | bigint, exclusive: boolean): Generator<CodedError<'tooSmall'>, void, unknown> {
+	if (exclusive ? !(x > bound) : !(x >= bound)) {
+		throw yield codedError('tooSmall', { value: x, min: bound, exclusive })
+	}
+}
+function* checkMax(x: number | bigint, bound: number | bigint, exclusive: boolean): Generator<CodedError<'tooLarge'>, void, unknown> {
+	if (exclusive ? !(x < bound) : !(x <= bound)) {
+		throw yield codedError('tooLarge', { value: x, max: bound, exclusive })
+	}
+}
+/**
+ * Validates the number is greater than or equal to the bound.
+ * The validator checks bigints if the bound is a bigint.
+ * Note that `NaN` never passes the validator.
+ * 
+ * @example
+ * ```ts
+ * const Age = pipe(number, min(0))
+ * const Id = pipe(bigInt, min(1n))
+ * ```
+ * 
+ * @see {@linkcode BoundOptions}
+ */
+export const min = <N extends number | bigint>(bound: N, { exclusive = false }: BoundOptions = {}) =>
+	describedAs(validator(function*(x: Numeric<N>) {
+		yield* checkMin(x, bound, exclusive)
+		
+		return x
+	}), { kind: 'min', value: bound, options: { exclusive } })
+/**
+ * Validates the number is less than or equal to the bound.
+ * The validator checks bigints if the bound is a bigint.
+ * Note that `NaN` never passes the validator.
+ * 
+ * @see {@linkcode BoundOptions}
+ */
+export const max = <N extends number | bigint>(bound: N, { exclusive = false }: BoundOptions = {}) =>
+	describedAs(validator(function*(x: Numeric<N>) {
+		yield* checkMax(x, bound, exclusive)
+		
+		return x
+	}), { kind: 'max', value: bound, options: { exclusive } })
+export interface BetweenOptions {
+	/**
+	 * Whether the value should not be equal to the lower bound.
+	 * 
+	 * @default false
+	 */
+	minExclusive?: boolean
+	/**
+	 * Whether the value should not be equal to the upper bound.
+	 * 
+	 * @default false
+	 */
+	maxExclusive?: boolean
+}
+/**
+ * Validates the number is between the bounds, inclusive by default.
+ * The validator checks bigints if the bounds are bigints.
+ * 
+ * @example
+ * ```ts
+ * const Percentage = pipe(number, between(0, 100))
+ * // 0 <= x < 1
+ * const Ratio = pipe(number, between(0, 1, { maxExclusive: true }))
+ * ```
+ * 
+ * @see {@linkcode BetweenOptions}
+ */
+export const between = <N extends number | bigint>(minBound: N, maxBound: Numeric<N>, { minExclusive = false, maxExclusive = false }: BetweenOptions = {}) =>
+	describedAs(validator(function*(x: Numeric<N>) {
+		yield* checkMin(x, minBound, minExclusive)
+		yield* checkMax(x, maxBound, maxExclusive)
+		
+		return x
+	}), { kind: 'between', min: minBound, max: maxBound, options: { minExclusive, maxExclusive } })
+
+/**
+ * Validates the number or the bigint is greater than 0.
+ */
+export const positive = min<number | bigint>(0, { exclusive: true })
+/**
+ * Validates the number or the bigint is greater than or equal to 0.
+ */
+export const nonNegative = min<number | bigint>(0)
+
+const isMultipleOf = (x: number | bigint, divisor: number | bigint) => {
+	if (typeof x == 'bigint') return x % (divisor as bigint) == 0n
+	
+	// NOTE: e.g. `0.3 / 0.1` is `2.9999999999999996`
+	const quotient = x / (divisor as number)
+	return Number.isFinite(quotient) && Math.abs(quotient - Math.round(quotient)) <= Number.EPSILON * Math.max(1, Math.abs(quotient))
+}
+/**
+ * Validates the number is a multiple of the given number.
+ * The validator checks bigints if the given number is a bigint.
+ * For numbers, errors of floating point arithmetic are tolerated, so `0.3` is a multiple of `0.1`.
+ * 
+ * @example
+ * ```ts
+ * const Price = pipe(number, multipleOf(0.01))
+ * ```
+ * 
+ * @throws {RangeError} If the given number is not greater than 0.
+ */
+export const multipleOf = <N extends number | bigint>(divisor: N) => {
+	if (!(divisor > 0)) throw new RangeError(`The divisor must be greater than 0, but got ${divisor}.`)
+	
+	return describedAs(validator(function*(x: Numeric<N>) {
+		if (!isMultipleOf(x, divisor)) throw yield codedError('notMultipleOf', { value: x, divisor })
+		
+		return x
+	}), { kind: 'multipleOf', value: divisor })
+}
+
+// arrays
+
+/**
+ * Validates the array has at least the given number of elements.
+ * 
+ * @example
+ * ```ts
+ * const Batch = pipe(arrayOf(string), minItems(1)) // Array<string>
+ * ```
+ */
+export const minItems = <T = unknown>(count: number) =>
+	describedAs(validator(function*(x: Array<T>) {
+		if (x.length < count) throw yield codedError('tooFewItems', { min: count, actual: x.length })
+		
+		return x
+	}), { kind: 'minItems', value: count })
+/**
+ * Validates the array has at most the given number of elements.
+ */
+export const maxItems = <T = unknown>(count: number) =>
+	describedAs(validator(function*(x: Array<T>) {
+		if (x.length > count) throw yield codedError('tooManyItems', { max: count, actual: x.length })
+		
+		return x
+	}), { kind: 'maxItems', value: count })
+/**
+ * Validates the array has no duplicate elements.
+ * Elements are compared by the result of the given function with {@linkcode https://tc39.es/ecma262/#sec-samevaluezero SameValueZero}, in the same way as {@linkcode Set} does.
+ * 
+ * @example
+ * ```ts
+ * const Users = pipe(arrayOf(User), uniqueItems(user => user.id))
+ * ```
+ */
+export const uniqueItems = <T = unknown>(key?: (elem: T) => unknown) =>
+	describedAs(validator(function*(x: Array<T>) {
+		const firstIndices = new Map<unknown, number>()
+		for (const [idx, elem] of x.entries()) {
+			const k = key ? key(elem) : elem
+			const firstIdx = firstIndices.get(k)
+			if (firstIdx !== undefined) throw yield codedError('duplicateItem', { index: idx, firstIndex: firstIdx })
+			
+			firstIndices.set(k, idx)
+		}
+		
+		return x
+	}), { kind: 'uniqueItems', ...key ? { key } : {} })
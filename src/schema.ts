@@ -0,0 +1,548 @@
+import { type AnyIntermediateValidator, type IntermediateValidator, validator, validatorFor, validate, wrapErrorAtOf, errorWithCauses } from './validator.js'
+import { any, string, number, boolean, null_, object, array, equal, looseOneOf, or, and, not, pipe, lazy, nullable, optional, strictProps, strictDict, arrayOf } from './helper.js'
+import { describe } from './descriptor.js'
+import { escapeRegExp } from './util.js'
+import { codedError } from './message.js'
+import { integer, min, max, multipleOf, minItems, maxItems } from './refinement.js'
+
+/**
+ * Indicates a JSON Schema (draft 2020-12).
+ * Only keywords that the library produces are typed.
+ */
+export interface JsonSchema {
+	$schema?: string
+	$comment?: string
+	$ref?: string
+	$defs?: Record<string, JsonSchema | boolean>
+	/**
+	 * The predecessor of `$defs`, which is still common.
+	 */
+	definitions?: Record<string, JsonSchema | boolean>
+	type?: JsonSchemaType | Array<JsonSchemaType>
+	const?: unknown
+	enum?: Array<unknown>
+	anyOf?: Array<JsonSchema | boolean>
+	allOf?: Array<JsonSchema | boolean>
+	oneOf?: Array<JsonSchema | boolean>
+	not?: JsonSchema | boolean
+	properties?: Record<string, JsonSchema | boolean>
+	required?: Array<string>
+	additionalProperties?: JsonSchema | boolean
+	propertyNames?: JsonSchema | boolean
+	items?: JsonSchema | boolean
+	prefixItems?: Array<JsonSchema | boolean>
+	minItems?: number
+	maxItems?: number
+	uniqueItems?: boolean
+	minLength?: number
+	maxLength?: number
+	pattern?: string
+	format?: string
+	minimum?: number
+	maximum?: number
+	exclusiveMinimum?: number
+	exclusiveMaximum?: number
+	multipleOf?: number
+	default?: unknown
+	[keyword: string]: unknown
+}
+export type JsonSchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'null' | 'object' | 'array'
+
+export interface ToJsonSchemaOptions {
+	/**
+	 * Converts validators that cannot be described, such as custom generator validators.
+	 * 
+	 * @default A function that returns a schema that accepts anything, with a `$comment`.
+	 */
+	opaque?: (iv: AnyIntermediateValidator) => JsonSchema
+}
+
+const JSON_SCHEMA_DIALECT = 'https://json-schema.org/draft/2020-12/schema'
+
+const defaultOpaque = (): JsonSchema => ({
+	$comment: 'The validator cannot be described as a JSON Schema.',
+})
+
+const jsonSchemaFormats = {
+	email: 'email',
+	uuid: 'uuid',
+	url: 'uri',
+	isoDate: 'date',
+	isoDateTime: 'date-time',
+}
+
+// NOTE: tags of `taggedUnion` also match numbers and booleans that are stringified to them
+const tagSchemaOf = (tag: string): JsonSchema => {
+	const values: Array<unknown> = [tag]
+	if (Number.isFinite(Number(tag)) && String(Number(tag)) == tag) values.push(Number(tag))
+	if (tag == 'true' || tag == 'false') values.push(tag == 'true')
+	return values.length == 1 ? { const: tag } : { enum: values }
+}
+
+/**
+ * Converts the validator to a JSON Schema (draft 2020-12).
+ * Note that values given to {@linkcode equal} and {@linkcode oneOf} are expected to be JSON-compatible.
+ * 
+ * @example
+ * ```ts
+ * toJsonSchema(props({ name: string, tags: arrayOf(string) }))
+ * // {
+ * //   $schema: 'https://json-schema.org/draft/2020-12/schema',
+ * //   type: 'object',
+ * //   properties: { name: { type: 'string' }, tags: { type: 'array', items: { type: 'string' } } },
+ * //   required: ['name', 'tags'],
+ * // }
+ * ```
+ */
+export const toJsonSchema = (iv: AnyIntermediateValidator, { opaque = defaultOpaque }: ToJsonSchemaOptions = {}): JsonSchema => {
+	// NOTE: validators made by `lazy` are put on `$defs` and referenced, since they may contain themselves
+	const lazyNames = new Map<AnyIntermediateValidator, string>()
+	const $defs: Record<string, JsonSchema> = {}
+	const convert = (iv: AnyIntermediateValidator): JsonSchema => {
+		const desc = describe(iv)
+		if (!desc) return opaque(iv)
+		
+		switch (desc.kind) {
+			case 'any':
+				return {}
+			case 'string':
+			case 'number':
+			case 'boolean':
+			case 'null':
+				return { type: desc.kind }
+			case 'equal':
+				return { const: desc.value }
+			case 'oneOf':
+				return { enum: desc.values }
+			case 'or':
+				return { anyOf: desc.children.map(convert) }
+			case 'and':
+				return { allOf: desc.children.map(convert) }
+			case 'pipe': {
+				const schemas = desc.children.map(convert)
+				// NOTE: schemas are merged into one if they do not share keywords, e.g. `pipe(string, minLength(1))`
+				const keywords = schemas.flatMap(schema => Object.keys(schema))
+				return new Set(keywords).size == keywords.length ? Object.assign({}, ...schemas) : { allOf: schemas }
+			}
+			// NOTE: JSON Schema counts code points instead of UTF-16 code units, which differs only on strings that contain surrogate pairs
+			case 'minLength':
+			case 'maxLength':
+			case 'minItems':
+			case 'maxItems':
+				return { [desc.kind]: desc.value }
+			// NOTE: JSON Schema compares elements structurally, which differs only on arrays that contain objects
+			case 'uniqueItems':
+				if (desc.key) return opaque(iv)
+				return { uniqueItems: true }
+			case 'regex':
+				// NOTE: JSON Schema has no way to specify flags, except `u` which is always on
+				if (desc.pattern.flags.replace('u', '') != '') return opaque(iv)
+				return { pattern: desc.pattern.source }
+			case 'templateLiteral':
+				return { type: 'string', pattern: desc.pattern.source }
+			case 'startsWith':
+				return { pattern: `^${escapeRegExp(desc.value)}` }
+			case 'endsWith':
+				return { pattern: `${escapeRegExp(desc.value)}$` }
+			case 'format':
+				return { format: jsonSchemaFormats[desc.format] }
+			case 'integer':
+				return { type: 'integer' }
+			case 'safeInteger':
+				return { type: 'integer', minimum: Number.MIN_SAFE_INTEGER, maximum: Number.MAX_SAFE_INTEGER }
+			// NOTE: every number is finite on JSON
+			case 'finite':
+				return {}
+			// NOTE: bigints cannot be described on JSON
+			case 'min':
+			case 'max': {
+				if (typeof desc.value == 'bigint') return opaque(iv)
+				
+				const keyword = {
+					min: desc.options.exclusive ? 'exclusiveMinimum' : 'minimum',
+					max: desc.options.exclusive ? 'exclusiveMaximum' : 'maximum',
+				}[desc.kind]
+				return { [keyword]: desc.value }
+			}
+			case 'between':
+				if (typeof desc.min == 'bigint' || typeof desc.max == 'bigint') return opaque(iv)
+				return {
+					[desc.options.minExclusive ? 'exclusiveMinimum' : 'minimum']: desc.min,
+					[desc.options.maxExclusive ? 'exclusiveMaximum' : 'maximum']: desc.max,
+				}
+			case 'multipleOf':
+				if (typeof desc.value == 'bigint') return opaque(iv)
+				return { multipleOf: desc.value }
+			case 'nullable':
+			// NOTE: `undefined` cannot be described on JSON
+			case 'nullishable':
+				return { anyOf: [convert(desc.children.inner), { type: 'null' }] }
+			case 'lazy': {
+				let name = lazyNames.get(iv)
+				if (name === undefined) {
+					name = `lazy${lazyNames.size}`
+					lazyNames.set(iv, name)
+					$defs[name] = convert(desc.children.inner)
+				}
+				return { $ref: `#/$defs/${name}` }
+			}
+			// NOTE: errors do not affect which values are accepted
+			case 'mapError':
+			case 'wrapError':
+				return convert(desc.children.inner)
+			case 'optional':
+			case 'optionalElement':
+			case 'rest':
+			case 'brand':
+				return convert(desc.children.inner)
+			case 'withDefault':
+				return { ...convert(desc.children.inner), default: desc.value }
+			case 'props': {
+				const properties: Record<string, JsonSchema> = {}
+				const required: Array<string> = []
+				// NOTE: symbol keys cannot be described on JSON
+				for (const key of Object.keys(desc.children)) {
+					const child = desc.children[key]!
+					properties[key] = convert(child)
+					
+					const childKind = describe(child)?.kind
+					if (!desc.options.partial && childKind != 'optional' && childKind != 'withDefault') required.push(key)
+				}
+				return {
+					type: 'object',
+					properties,
+					...required.length > 0 ? { required } : {},
+					...desc.options.allowExtra ? {} : { additionalProperties: false },
+				}
+			}
+			case 'taggedUnion': {
+				// NOTE: symbol keys cannot be described on JSON
+				if (typeof desc.key != 'string') return opaque(iv)
+				
+				const key = desc.key
+				return {
+					anyOf: Object.keys(desc.children).map(tag => ({
+						allOf: [
+							{ type: 'object', properties: { [key]: tagSchemaOf(tag) }, required: [key] },
+							convert(desc.children[tag]!),
+						],
+					})),
+				}
+			}
+			case 'dict':
+				return {
+					type: 'object',
+					// NOTE: every property name is a string on JSON, so `string` is redundant
+					...describe(desc.children.key)?.kind == 'string' ? {} : { propertyNames: convert(desc.children.key) },
+					additionalProperties: convert(desc.children.value),
+				}
+			case 'arrayOf':
+				return { type: 'array', items: convert(desc.children.element) }
+			case 'nonEmptyArrayOf':
+				return { type: 'array', items: convert(desc.children.element), minItems: 1 }
+			case 'tuple': {
+				const kinds = desc.children.map(child => describe(child)?.kind)
+				const restIdx = kinds.indexOf('rest')
+				// NOTE: elements after the rest element cannot be described on JSON Schema
+				if (restIdx != -1 && restIdx != kinds.length - 1) return opaque(iv)
+				
+				const restIv = restIdx == -1 ? undefined : desc.children[restIdx]
+				return {
+					type: 'array',
+					prefixItems: (restIv ? desc.children.slice(0, -1) : desc.children).map(convert),
+					items: restIv ? convert(restIv) : false,
+					minItems: kinds.filter(kind => kind != 'optionalElement' && kind != 'rest').length,
+					...restIv ? {} : { maxItems: desc.children.length },
+				}
+			}
+			default:
+				return opaque(iv)
+		}
+	}
+	
+	const schema = convert(iv)
+	return { $schema: JSON_SCHEMA_DIALECT, ...schema, ...lazyNames.size > 0 ? { $defs } : {} }
+}
+
+const never = validator(function*(_) {
+	throw yield codedError('nothingAllowed')
+})
+const jsonObject = validatorFor<Record<string, unknown>>()(function*(x) {
+	// NOTE: arrays are not objects on JSON Schema
+	if (typeof x != 'object' || x === null || Array.isArray(x)) throw yield codedError('notObject')
+	
+	return x as Record<string, unknown>
+})
+const typeIvs: Record<JsonSchemaType, AnyIntermediateValidator> = {
+	string,
+	number,
+	integer: pipe(number, integer),
+	boolean,
+	null: null_,
+	object: jsonObject,
+	array,
+}
+const typeChecks: Record<JsonSchemaType, (x: unknown) => boolean> = {
+	string: x => typeof x == 'string',
+	number: x => typeof x == 'number',
+	integer: x => Number.isInteger(x),
+	boolean: x => typeof x == 'boolean',
+	null: x => x === null,
+	object: x => validate(x, jsonObject).ok,
+	array: x => Array.isArray(x),
+}
+
+const isJsonEqual = (a: unknown, b: unknown): boolean => {
+	if (a === b) return true
+	if (typeof a != 'object' || typeof b != 'object' || a === null || b === null) return false
+	if (Array.isArray(a) != Array.isArray(b)) return false
+	
+	const aKeys = Object.keys(a)
+	return aKeys.length == Object.keys(b).length
+		&& aKeys.every(key => Object.prototype.hasOwnProperty.call(b, key) && isJsonEqual(a[key as never], b[key as never]))
+}
+const jsonEqual = (value: unknown) =>
+	typeof value != 'object' || value === null
+		? equal(value)
+		: validator(function*(x) {
+			if (!isJsonEqual(x, value)) throw yield codedError('notEqual', { expected: value })
+			
+			return x
+		})
+const jsonOneOf = (values: Array<unknown>) =>
+	values.every(value => typeof value != 'object' || value === null)
+		? looseOneOf(...values)
+		// NOTE: JSON Schema compares objects and arrays by their structure
+		: validator(function*(x) {
+			if (!values.some(value => isJsonEqual(x, value))) throw yield codedError('notOneOf', { expected: values })
+			
+			return x
+		})
+
+/**
+ * Applies the validator only on values of the given type, since JSON Schema keywords ignore values of other types.
+ */
+const onType = (type: JsonSchemaType, types: Array<JsonSchemaType> | undefined, iv: AnyIntermediateValidator) =>
+	types?.length == 1 && types[0] == type
+		? iv
+		: validator(function*(x) {
+			return typeChecks[type](x) ? yield* iv(x) : x
+		})
+
+const decodePointerSegment = (segment: string) =>
+	decodeURIComponent(segment).replaceAll('~1', '/').replaceAll('~0', '~')
+
+/**
+ * Builds a validator from the JSON Schema (draft 2020-12), using built-in validators.
+ * 
+ * Supported keywords are:
+ * `$ref` (local references only), `$defs`, `definitions`, `type`, `const`, `enum`, `anyOf`, `allOf`, `oneOf`, `not`,
+ * `properties`, `required`, `additionalProperties`, `propertyNames`, `items`, `prefixItems`, `minItems`, `maxItems`,
+ * `minLength`, `maxLength`, `pattern`, `minimum`, `maximum`, `exclusiveMinimum`, `exclusiveMaximum` and `multipleOf`.
+ * Other keywords are ignored.
+ * 
+ * @example
+ * ```ts
+ * const User = fromJsonSchema({
+ *   type: 'object',
+ *   properties: { name: { type: 'string' } },
+ *   required: ['name'],
+ * })
+ * validate({ name: 0 }, User) // fails with the same reason as `props({ name: string })`
+ * ```
+ * 
+ * @throws If the schema contains a reference that cannot be resolved.
+ */
+export const fromJsonSchema = (root: JsonSchema | boolean): IntermediateValidator<unknown, unknown> => {
+	const refs = new Map<string, AnyIntermediateValidator>()
+	const resolve = (ref: string): AnyIntermediateValidator => {
+		const cached = refs.get(ref)
+		if (cached) return cached
+		if (!ref.startsWith('#')) throw new Error(`Only local references are supported, but got '${ref}'.`)
+		
+		let target: unknown = root
+		for (const segment of ref.slice(1).split('/').slice(1)) {
+			const key = decodePointerSegment(segment)
+			if (typeof target != 'object' || target === null || !Object.prototype.hasOwnProperty.call(target, key)) {
+				throw new Error(`The reference '${ref}' cannot be resolved.`)
+			}
+			target = target[key as never]
+		}
+		
+		// NOTE: the reference is registered before converting the target, since it may refer itself
+		let resolved: AnyIntermediateValidator | undefined
+		const iv = lazy(() => resolved!)
+		refs.set(ref, iv)
+		resolved = convert(target as JsonSchema | boolean)
+		return iv
+	}
+	
+	const convertObjectKeywords = (schema: JsonSchema) => {
+		const { properties = {}, required = [], additionalProperties, propertyNames } = schema
+		const ivs: Array<AnyIntermediateValidator> = []
+		
+		const defs: Record<string, AnyIntermediateValidator> = {}
+		for (const [key, sub] of Object.entries(properties)) {
+			defs[key] = required.includes(key) ? convert(sub) : optional(convert(sub))
+		}
+		for (const key of required) defs[key] ??= any
+		
+		const definedKeys = Object.keys(defs)
+		if (typeof additionalProperties == 'object' && definedKeys.length == 0) {
+			ivs.push(strictDict(string, convert(additionalProperties)))
+		} else {
+			if (definedKeys.length > 0 || additionalProperties === false) {
+				ivs.push(strictProps(defs, { allowExtra: additionalProperties !== false }))
+			}
+			if (typeof additionalProperties == 'object') {
+				const extraIv = convert(additionalProperties)
+				ivs.push(validator(function*(x: Record<string, unknown>) {
+					for (const key of Object.keys(x)) {
+						if (Object.prototype.hasOwnProperty.call(defs, key)) continue
+						
+						yield* wrapErrorAtOf(
+							extraIv(x[key]),
+							codedError('invalidProperty', { key }),
+							[key],
+						)
+					}
+					
+					return x
+				}))
+			}
+		}
+		if (propertyNames !== undefined) ivs.push(strictDict(convert(propertyNames), any))
+		
+		return ivs
+	}
+	const convertArrayKeywords = (schema: JsonSchema) => {
+		const { items, prefixItems } = schema
+		const ivs: Array<AnyIntermediateValidator> = []
+		
+		if (prefixItems !== undefined) {
+			const prefixIvs = prefixItems.map(convert)
+			const restIv = items === undefined ? any : convert(items)
+			ivs.push(validator(function*(x: Array<unknown>) {
+				let idx = 0
+				for (const elem of x) {
+					yield* wrapErrorAtOf(
+						(prefixIvs[idx] ?? restIv)(elem),
+						codedError('invalidElement', { index: idx }),
+						[idx],
+					)
+					idx += 1
+				}
+				
+				return x
+			}))
+		} else if (items !== undefined) {
+			ivs.push(arrayOf(convert(items)))
+		}
+		if (schema.minItems !== undefined) ivs.push(minItems(schema.minItems))
+		if (schema.maxItems !== undefined) ivs.push(maxItems(schema.maxItems))
+		
+		return ivs
+	}
+	const convertStringKeywords = (schema: JsonSchema) => {
+		const { minLength, maxLength, pattern } = schema
+		const ivs: Array<AnyIntermediateValidator> = []
+		
+		// NOTE: JSON Schema counts code points, not UTF-16 code units
+		const lengthOf = (x: string) => [...x].length
+		if (minLength !== undefined) {
+			ivs.push(validator(function*(x: string) {
+				if (lengthOf(x) < minLength) throw yield codedError('tooShort', { min: minLength, actual: lengthOf(x) })
+				
+				return x
+			}))
+		}
+		if (maxLength !== undefined) {
+			ivs.push(validator(function*(x: string) {
+				if (lengthOf(x) > maxLength) throw yield codedError('tooLong', { max: maxLength, actual: lengthOf(x) })
+				
+				return x
+			}))
+		}
+		if (pattern !== undefined) {
+			const regExp = new RegExp(pattern, 'u')
+			ivs.push(validator(function*(x: string) {
+				if (!regExp.test(x)) throw yield codedError('patternMismatch', { pattern: regExp })
+				
+				return x
+			}))
+		}
+		
+		return ivs
+	}
+	const convertNumberKeywords = (schema: JsonSchema) => {
+		const { minimum, maximum, exclusiveMinimum, exclusiveMaximum, multipleOf: divisor } = schema
+		const ivs: Array<AnyIntermediateValidator> = []
+		
+		if (minimum !== undefined) ivs.push(min(minimum))
+		if (maximum !== undefined) ivs.push(max(maximum))
+		if (exclusiveMinimum !== undefined) ivs.push(min(exclusiveMinimum, { exclusive: true }))
+		if (exclusiveMaximum !== undefined) ivs.push(max(exclusiveMaximum, { exclusive: true }))
+		if (divisor !== undefined) ivs.push(multipleOf(divisor))
+		
+		return ivs
+	}
+	
+	const convert = (schema: JsonSchema | boolean): AnyIntermediateValidator => {
+		if (schema === true) return any
+		if (schema === false) return never
+		
+		const ivs: Array<AnyIntermediateValidator> = []
+		
+		if (schema.$ref !== undefined) ivs.push(resolve(schema.$ref))
+		
+		const types = schema.type === undefined ? undefined : ([] as Array<JsonSchemaType>).concat(schema.type)
+		if (types !== undefined) {
+			const nonNullTypes = types.filter(type => type != 'null')
+			ivs.push(
+				types.length == 1
+					? typeIvs[types[0]!]
+					: types.length == 2 && nonNullTypes.length == 1
+						? nullable(typeIvs[nonNullTypes[0]!])
+						: or(...types.map(type => typeIvs[type]))
+			)
+		}
+		
+		if ('const' in schema) ivs.push(jsonEqual(schema.const))
+		if (schema.enum !== undefined) ivs.push(jsonOneOf(schema.enum))
+		
+		const keywordIvs: Array<[JsonSchemaType, Array<AnyIntermediateValidator>]> = [
+			['object', convertObjectKeywords(schema)],
+			['array', convertArrayKeywords(schema)],
+			['string', convertStringKeywords(schema)],
+			['number', convertNumberKeywords(schema)],
+		]
+		for (const [type, ivsOfType] of keywordIvs) {
+			for (const iv of ivsOfType) ivs.push(onType(type, types, iv))
+		}
+		
+		if (schema.anyOf !== undefined) ivs.push(or(...schema.anyOf.map(convert)))
+		if (schema.allOf !== undefined) ivs.push(and(...schema.allOf.map(convert)))
+		if (schema.oneOf !== undefined) {
+			const branchIvs = schema.oneOf.map(convert)
+			ivs.push(validator(function*(x) {
+				const errs = []
+				const passed = []
+				for (const iv of branchIvs) {
+					const res = validate(x, iv)
+					if (res.ok) passed.push(res.value)
+					else errs.push(res.reason)
+				}
+				if (passed.length == 0) throw yield errorWithCauses(codedError('noneOf'), errs)
+				if (passed.length > 1) throw yield codedError('moreThanOneOf')
+				
+				return passed[0]
+			}))
+		}
+		if (schema.not !== undefined) ivs.push(not<unknown>()(convert(schema.not)))
+		
+		// NOTE: `pipe` keeps the errors as-is, unlike `and`
+		return ivs.length == 0 ? any : ivs.reduce((a, b) => pipe(a, b))
+	}
+	
+	return convert(root)
+}
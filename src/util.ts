@@ -1,3 +1,5 @@
+import type { RealPropertyKey } from './helper.js'
+
 /**
  * @example
  * ```ts
@@ -11,3 +13,30 @@
  * ```
  */
 export const noInferReturn = (value: unknown) => value as never
+
+/**
+ * @returns The key of the definition of {@linkcode taggedUnion} that the tag selects, or `undefined` if there is none.
+ * Tags select keys by their string forms like property accesses, so `1` and `true` select `'1'` and `'true'`, while symbols select only themselves.
+ */
+export const tagKeyOf = (defs: object, tag: unknown): RealPropertyKey | undefined => {
+	const key =
+		typeof tag == 'symbol'
+			? tag
+			: typeof tag == 'string' || typeof tag == 'number' || typeof tag == 'bigint' || typeof tag == 'boolean'
+				? String(tag)
+				: undefined
+	return key !== undefined && Object.prototype.hasOwnProperty.call(defs, key) ? key : undefined
+}
+
+export const escapeRegExp = (str: string) =>
+	str.replace(/[\\^$.*+?()[\]{}|/]/g, '\\$&')
+
+/**
+ * Stringifies the value for error messages. Only the type is shown for values other than primitives, since they may be large.
+ */
+export const stringifyValue = (x: unknown) =>
+	typeof x == 'string'
+		? `'${x}'`
+		: typeof x == 'number' || typeof x == 'boolean' || typeof x == 'bigint' || x == null
+			? String(x)
+			: typeof x
@@ -1,3 +1,8 @@
+import type { AsyncIntermediateValidator, AnyAsyncIntermediateValidator } from './async.js'
+import { describedAs } from './descriptor.js'
+import { fastPathOf, isFailure } from './compile.js'
+import { isCodedError, formatMessage, type ErrorMessages } from './message.js'
+
 /**
  * Indicates a validator.
  * 
@@ -10,25 +15,60 @@ export type IntermediateValidator<T extends Req, E, Req = unknown> =
 export type AnyIntermediateValidator = IntermediateValidator<any, any, any>
 export type Validator<T, E, Req = unknown> = (x: Req) => Result<T, E>
 
+// NOTE: the property never exists at runtime; it only carries the input type of transformers
+declare const input: unique symbol
+/**
+ * Carries the type that a {@linkcode Transformer} checks.
+ */
+export interface WithInput<I> {
+	readonly [input]?: I
+}
+/**
+ * Indicates a validator that produces a value of another type, instead of narrowing the value.
+ * 
+ * @template I The type that the function checks.
+ * @template O The type of the value that the function produces.
+ * @template E A type that indicates a validation error.
+ * @template Req A requirement for the argument of the function.
+ */
+export type Transformer<I extends Req, O, E, Req = unknown> =
+	((x: Req) => Generator<E, O, unknown>) & WithInput<I>
+
 /**
  * A helper type for extracting the validation target of the {@linkcode Iv}.
  */
-export type ValidationTargetOf<Iv extends AnyIntermediateValidator> =
-	Iv extends IntermediateValidator<infer T, any, any>
+export type ValidationTargetOf<Iv extends AnyIntermediateValidator | AnyAsyncIntermediateValidator> =
+	Iv extends IntermediateValidator<infer T, any, any> | AsyncIntermediateValidator<infer T, any, any>
 		? T
 		: never
+/**
+ * A helper type for extracting the type that the {@linkcode Iv} checks.
+ * This differs from {@linkcode ValidationTargetOf} only if the {@linkcode Iv} is a {@linkcode Transformer}.
+ */
+export type ValidationInputOf<Iv extends AnyIntermediateValidator | AnyAsyncIntermediateValidator> =
+	typeof input extends keyof Iv
+		? Iv extends WithInput<infer I>
+			? I
+			: never
+		: ValidationTargetOf<Iv>
+/**
+ * A helper type for extracting the type of the value that the {@linkcode Iv} produces.
+ * An alias of {@linkcode ValidationTargetOf}, for symmetry with {@linkcode ValidationInputOf}.
+ */
+export type ValidationOutputOf<Iv extends AnyIntermediateValidator | AnyAsyncIntermediateValidator> =
+	ValidationTargetOf<Iv>
 /**
  * A helper type for extracting the error of the {@linkcode Iv}.
  */
-export type ValidationErrorOf<Iv extends AnyIntermediateValidator> =
-	Iv extends IntermediateValidator<any, infer E, any>
+export type ValidationErrorOf<Iv extends AnyIntermediateValidator | AnyAsyncIntermediateValidator> =
+	Iv extends IntermediateValidator<any, infer E, any> | AsyncIntermediateValidator<any, infer E, any>
 		? E
 		: never
 /**
  * A helper type for extracting the requirement of the {@linkcode Iv}.
  */
-export type RequirementOf<Iv extends AnyIntermediateValidator> =
-	Iv extends IntermediateValidator<any, any, infer Req>
+export type RequirementOf<Iv extends AnyIntermediateValidator | AnyAsyncIntermediateValidator> =
+	Iv extends IntermediateValidator<any, any, infer Req> | AsyncIntermediateValidator<any, any, infer Req>
 		? Req
 		: never
 
@@ -68,20 +108,207 @@ export const fail = <E>(reason: E): Fail<E> => ({ ok: false, reason })
  * @returns A validator that applies the transform function to the errors.
  */
 export const mapError = <T extends Req, Cause, Req, E>(iv: IntermediateValidator<T, Cause, Req>, transform: (cause: Cause) => E) =>
-	validator(function*(x: Req) {
-		const res = validate(x, iv)
-		if (!res.ok) throw yield transform(res.reason)
-		return res.value
-	})
+	describedAs(validator(function*(x: Req) {
+		// NOTE: built-ins pass without generators, and failures are reported by the generator so that `validateAll` can collect further errors
+		const fast = fastPathOf(iv)
+		if (fast) {
+			const value = fast(x)
+			if (!isFailure(value)) return value as T
+		}
+		
+		return yield* mapErrorOf(iv(x), transform)
+	}), { kind: 'mapError', children: { inner: iv }, fn: transform as (err: unknown) => E })
+/**
+ * Delegates to the generator like {@linkcode mapError}, without building a validator.
+ * Helpers use this on each validation, where the error depends on the value, such as an index of an element.
+ */
+export function* mapErrorOf<T, Cause, E>(gen: Generator<Cause, T, unknown>, transform: (cause: Cause) => E): Generator<E, T, unknown> {
+	let res = gen.next()
+	while (!res.done) {
+		// NOTE: the generator is resumed only by `validateAll`, so passing the resumption value lets the generator report further errors
+		res = gen.next(yield transform(res.value))
+	}
+	return res.value
+}
 /**
  * Indicates an error with a cause.
  */
 export type ErrorWithCause<E, Cause> = [E, Cause]
+/**
+ * Indicates a location of a value, as a sequence of property keys from the validated value.
+ */
+export type Path = Array<PropertyKey>
+/**
+ * Indicates an error with a cause, that also records where the cause occurred.
+ * Note that {@linkcode ErrorWithPath.path} is relative to the value that the wrapping validator received.
+ */
+export type ErrorWithPath<E, Cause> = ErrorWithCause<E, Cause> & { path: Path }
+
+// NOTE: errors are arbitrary values, so we remember which tuples are created by us instead of guessing by their shapes
+const errorsWithCause = new WeakSet<object>()
+/**
+ * Creates an {@linkcode ErrorWithCause}.
+ */
+export const errorWithCause = <E, Cause>(error: E, cause: Cause): ErrorWithCause<E, Cause> => {
+	const err: ErrorWithCause<E, Cause> = [error, cause]
+	errorsWithCause.add(err)
+	return err
+}
+/**
+ * Creates an {@linkcode ErrorWithPath}.
+ */
+export const errorWithPath = <E, Cause>(error: E, cause: Cause, path: Path): ErrorWithPath<E, Cause> =>
+	Object.assign(errorWithCause(error, cause), { path })
+/**
+ * @returns Whether the value is an error created by {@linkcode errorWithCause} (including {@linkcode wrapError}).
+ */
+export const isErrorWithCause = (x: unknown): x is ErrorWithCause<unknown, unknown> | ErrorWithPath<unknown, unknown> =>
+	typeof x == 'object' && x !== null && errorsWithCause.has(x)
+
+const errorsWithCauses = new WeakSet<object>()
+/**
+ * Creates an {@linkcode ErrorWithCause} that has multiple causes, such as the errors of each branch of {@linkcode or}.
+ * Note that the error is not followed by {@linkcode getLeafError}, since there is no single leaf.
+ */
+export const errorWithCauses = <E, Causes extends Array<unknown>>(error: E, causes: Causes): ErrorWithCause<E, Causes> => {
+	const err: ErrorWithCause<E, Causes> = [error, causes]
+	errorsWithCauses.add(err)
+	return err
+}
+/**
+ * @returns Whether the value is an error created by {@linkcode errorWithCauses}.
+ */
+export const isErrorWithCauses = (x: unknown): x is ErrorWithCause<unknown, Array<unknown>> =>
+	typeof x == 'object' && x !== null && errorsWithCauses.has(x)
 /**
  * Wraps the validator to throw the given error with the original error as the cause, if the validation failed.
  */
 export const wrapError = <T extends Req, Cause, Req, E>(iv: IntermediateValidator<T, Cause, Req>, error: E) =>
-	mapError(iv, (origErr): ErrorWithCause<E, Cause> => [error, origErr])
+	describedAs(mapError(iv, origErr => errorWithCause(error, origErr)), { kind: 'wrapError', children: { inner: iv }, error })
+/**
+ * {@linkcode wrapError} that also records the location of the value that the validator received.
+ */
+export const wrapErrorAt = <T extends Req, Cause, Req, E>(iv: IntermediateValidator<T, Cause, Req>, error: E, path: Path) =>
+	describedAs(mapError(iv, origErr => errorWithPath(error, origErr, path)), { kind: 'wrapError', children: { inner: iv }, error, path })
+/**
+ * Delegates to the generator like {@linkcode wrapError}, without building a validator.
+ */
+export const wrapErrorOf = <T, Cause, E>(gen: Generator<Cause, T, unknown>, error: E) =>
+	mapErrorOf(gen, origErr => errorWithCause(error, origErr))
+/**
+ * Delegates to the generator like {@linkcode wrapErrorAt}, without building a validator.
+ */
+export const wrapErrorAtOf = <T, Cause, E>(gen: Generator<Cause, T, unknown>, error: E, path: Path) =>
+	mapErrorOf(gen, origErr => errorWithPath(error, origErr, path))
+
+/**
+ * Follows the causes of the failure to the innermost error.
+ * 
+ * @example
+ * ```ts
+ * const res = validate({ users: [{ name: 0 }] }, props({ users: arrayOf(props({ name: string })) }))
+ * if (!res.ok) {
+ *   getLeafError(res) // { path: ['users', 0, 'name'], message: 'The value is not a string.' }
+ * }
+ * ```
+ * 
+ * @returns The path to the value that caused the failure, and the innermost error.
+ */
+export const getLeafError = ({ reason }: Fail<unknown>) => {
+	const path: Path = []
+	let err = reason
+	while (isErrorWithCause(err)) {
+		if ('path' in err) path.push(...err.path)
+		err = err[1]
+	}
+	return { path, message: err }
+}
+
+export interface FormatErrorOptions {
+	/**
+	 * How many causes of an error with multiple causes are shown. The rest are omitted.
+	 * 
+	 * @default 5
+	 */
+	maxCauses?: number
+	/**
+	 * The message catalog for errors of built-ins, where messages of codes that are not given fall back to {@linkcode englishErrorMessages}.
+	 * Ignored if {@linkcode FormatErrorOptions.stringify} is given.
+	 * 
+	 * @example
+	 * ```ts
+	 * formatError(reason, { messages: { notString: () => '문자열이 아닙니다.' } })
+	 * ```
+	 */
+	messages?: Partial<ErrorMessages>
+	/**
+	 * Converts each error to a string.
+	 * By default, errors of built-ins are shown as their messages, strings are shown as-is, and other values are stringified as JSON.
+	 */
+	stringify?: (err: unknown) => string
+}
+const stringifyError = (err: unknown, messages: Partial<ErrorMessages>) => {
+	if (isCodedError(err)) return formatMessage(err, messages)
+	if (typeof err == 'string') return err
+	try {
+		return JSON.stringify(err) ?? String(err)
+	} catch {
+		return String(err)
+	}
+}
+const formatPath = (path: Path) =>
+	path.map((key, idx) =>
+		typeof key == 'string' && /^[A-Za-z_$][\w$]*$/.test(key)
+			? idx == 0 ? key : `.${key}`
+			: typeof key == 'string'
+				? `[${JSON.stringify(key)}]`
+				: `[${key.toString()}]`
+	).join('')
+/**
+ * Renders the error as a readable report, one error per line.
+ * Chains of errors with a single cause are collapsed into a line, where errors that record the path are shown as the path.
+ * Errors with multiple causes, such as those of {@linkcode or}, list their causes indented below them, with paths relative to the error.
+ * 
+ * @example
+ * ```ts
+ * const res = validate({ users: [{ name: 0 }] }, props({ users: arrayOf(props({ name: or(string, null_) })) }))
+ * if (!res.ok) {
+ *   console.log(formatError(res.reason))
+ *   // users[0].name: The value did not pass any of the given validators.
+ *   //   - The value is not a string.
+ *   //   - The value is not null.
+ * }
+ * ```
+ * 
+ * @see {@linkcode FormatErrorOptions}
+ */
+export const formatError = (
+	reason: unknown,
+	{ maxCauses = 5, messages = {}, stringify = err => stringifyError(err, messages) }: FormatErrorOptions = {},
+): string => {
+	const lines: Array<string> = []
+	const render = (err: unknown, indent: string) => {
+		const path: Path = []
+		const messages = []
+		while (isErrorWithCause(err)) {
+			// NOTE: messages of errors with paths only tell where the cause occurred, which the path tells as well
+			if ('path' in err) path.push(...err.path)
+			else messages.push(stringify(err[0]))
+			err = err[1]
+		}
+		const causes = isErrorWithCauses(err) ? err[1] : []
+		messages.push(stringify(isErrorWithCauses(err) ? err[0] : err))
+		
+		const pathPrefix = path.length > 0 ? `${formatPath(path)}: ` : ''
+		lines.push(`${indent}${pathPrefix}${messages.join(' > ')}`)
+		
+		const childIndent = indent == '' ? '  - ' : `  ${indent}`
+		for (const cause of causes.slice(0, maxCauses)) render(cause, childIndent)
+		if (causes.length > maxCauses) lines.push(`${childIndent}... ${causes.length - maxCauses} more`)
+	}
+	render(reason, '')
+	return lines.join('\n')
+}
 
 /**
  * Requires a value to be the given type.
@@ -102,6 +329,57 @@ export const validatorFor = <T>() =>
 	<E = string, Req = unknown>(gf: IntermediateValidator<T & Req, E, Req>): IntermediateValidator<T & Req, E, Req> =>
 		validator<T & Req, E, Req>(gf)
 
+/**
+ * A helper function for building a {@linkcode Transformer}, with an ability to specify the type that the transformer checks.
+ * 
+ * @example
+ * ```ts
+ * const length = transformerFor<string>()(function*(x) {
+ *   const str = yield* string(x)
+ *   return str.length
+ * })
+ * ```
+ */
+export const transformerFor = <I>() =>
+	<O, E = string, Req = unknown>(gf: (x: Req) => Generator<E, O, unknown>) =>
+		gf as Transformer<I & Req, O, E, Req>
+
+// NOTE: the property never exists at runtime, and the key is not exposed so that branded values cannot be written by hand
+declare const brandKey: unique symbol
+/**
+ * Marks the type as a nominal type named {@linkcode B}, which values get only by passing a validator by {@linkcode brand}.
+ * Types can have multiple brands, by intersecting them.
+ * 
+ * @example
+ * ```ts
+ * type UserId = string & Brand<'UserId'>
+ * ```
+ */
+export interface Brand<B extends string> {
+	readonly [brandKey]: { readonly [K in B]: true }
+}
+type Branded<Iv extends AnyIntermediateValidator, B extends string> =
+	& IntermediateValidator<ValidationTargetOf<Iv> & Brand<B>, ValidationErrorOf<Iv>, RequirementOf<Iv>>
+	& (typeof input extends keyof Iv ? WithInput<ValidationInputOf<Iv>> : unknown)
+/**
+ * Creates a validator that produces the value of the given validator as a {@linkcode Brand}ed type.
+ * The values are not changed at runtime; only the type is.
+ * Since the given validator has to pass, {@linkcode validatorFor} with a branded type accepts only validators made by this.
+ * 
+ * @example
+ * ```ts
+ * const UserId = brand<'UserId'>()(pipe(string, uuid))
+ * type UserId = ValidationTargetOf<typeof UserId> // string & Brand<'UserId'>
+ * 
+ * // pins the type of the validator
+ * const Email = validatorFor<Email>()(brand<'Email'>()(pipe(string, email)))
+ * type Email = string & Brand<'Email'>
+ * ```
+ */
+export const brand = <B extends string>() =>
+	<Iv extends AnyIntermediateValidator>(iv: Iv) =>
+		describedAs(((x: RequirementOf<Iv>) => iv(x)) as Branded<Iv, B>, { kind: 'brand', children: { inner: iv } })
+
 /**
  * Creates a {@linkcode Validator}.
  */
@@ -119,7 +397,86 @@ export function validate<T extends Req, E, Req>(
 ) {
 	if (!iv) return (x: Req) => validate(x, xOrIv)
 	
+	// NOTE: built-ins are validated without generators, and the results are the same
+	const fast = fastPathOf(iv)
+	if (fast) {
+		const value = fast(xOrIv)
+		return isFailure(value) ? fail(value.reason) : ok(value)
+	}
+	
 	const res = iv(xOrIv).next()
 	
 	return res.done ? ok(res.value) : fail(res.value)
 }
+
+// NOTE: `validateAll` resumes validators with this value after receiving an error.
+// validators that do not collect errors throw the value by `throw yield`, which ends the validation as usual.
+const resumeToCollect = Symbol('resumeToCollect')
+
+/**
+ * Delegates to the generator like `yield*`, but lets the caller keep going after the generator failed,
+ * while errors are being collected by {@linkcode validateAll}.
+ * If any of the delegations failed, the caller should call {@linkcode giveUp} after it finished.
+ * 
+ * @example
+ * ```ts
+ * const pair = validator(function*(x: [unknown, unknown]) {
+ *   const first = yield* attempt(string(x[0]))
+ *   const second = yield* attempt(string(x[1]))
+ *   if (!first.ok || !second.ok) giveUp()
+ *   
+ *   return x as [string, string]
+ * })
+ * ```
+ * 
+ * @returns An {@linkcode Ok} with the value that the generator returned, or a {@linkcode Fail} if the generator failed.
+ */
+export function* attempt<E, T>(gen: Generator<E, T, unknown>): Generator<E, Result<T, undefined>, unknown> {
+	try {
+		return ok(yield* gen)
+	} catch (e) {
+		if (e === resumeToCollect) return fail(undefined)
+		throw e
+	}
+}
+/**
+ * Ends the validation that already reported its errors through {@linkcode attempt}.
+ * 
+ * @see {@linkcode attempt}
+ */
+export const giveUp = (): never => {
+	throw resumeToCollect
+}
+
+/**
+ * Creates a {@linkcode Validator} that collects every error.
+ */
+export function validateAll<T extends Req, E, Req>(iv: IntermediateValidator<T, E, Req>): Validator<T, Array<E>, Req>
+/**
+ * Validates the value, without stopping at the first error.
+ * Note that only validators that support collecting errors (built-in containers and validators using {@linkcode attempt}) keep going after an error.
+ * 
+ * @returns A {@linkcode Ok} if the validation succeeded, a {@linkcode Fail} with every error otherwise.
+ */
+export function validateAll<T extends Req, E, Req>(x: NoInfer<Req>, iv: IntermediateValidator<T, E, Req>): Result<T, Array<E>>
+export function validateAll<T extends Req, E, Req>(
+	...[xOrIv, iv]:
+		| [x: NoInfer<Req>, iv: IntermediateValidator<T, E, Req>]
+		| [iv: IntermediateValidator<T, E, Req>, _?: never]
+) {
+	if (!iv) return (x: Req) => validateAll(x, xOrIv)
+	
+	const gen = iv(xOrIv)
+	const errs: Array<E> = []
+	let res = gen.next()
+	try {
+		while (!res.done) {
+			errs.push(res.value)
+			res = gen.next(resumeToCollect)
+		}
+	} catch (e) {
+		if (e !== resumeToCollect) throw e
+	}
+	
+	return res.done && errs.length == 0 ? ok(res.value) : fail(errs)
+}
@@ -1,5 +1,11 @@
 import './basic.js'
 import './helper.js'
 import './prelude.js'
+import './async.js'
+import './refinement.js'
+import './schema.js'
+import './descriptor.js'
+import './message.js'
+import './compile.js'
 
 console.log('all tests passed')
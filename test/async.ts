@@ -0,0 +1,154 @@
+import assert from 'node:assert'
+import * as h from '../src/helper.js'
+import { type IntermediateValidator, type ValidationTargetOf, formatError } from '../src/validator.js'
+import { codedError, formatMessage, type CodedError } from '../src/message.js'
+import { ValidationError } from '../src/assert.js'
+import * as a from '../src/async.js'
+import { compileOnly } from './common.js'
+
+const taken = new Set(['admin'])
+const lookup = async (name: string) => taken.has(name)
+
+const AvailableUsername = a.asyncValidator(async function*(x) {
+	const name = yield* h.string(x)
+	if (await lookup(name)) throw yield 'The username is already taken.'
+	
+	return name
+})
+
+compileOnly(() => {
+	AvailableUsername satisfies a.AsyncIntermediateValidator<string, CodedError<'notString'> | string>
+	'' satisfies ValidationTargetOf<typeof AvailableUsername>
+	
+	a.asyncValidatorFor<'ok'>()(async function*(x: string) {
+		if (0) throw yield 'error' as const
+		return 'ok'
+	}) satisfies a.AsyncIntermediateValidator<'ok', 'error', string>
+	
+	// sync validators are accepted as well
+	a.validateAsync('', h.string) satisfies Promise<{ ok: true; value: string } | { ok: false; reason: CodedError<'notString'> }>
+})
+
+{
+	const res = await a.validateAsync('someone', AvailableUsername)
+	assert(res.ok && res.value === 'someone')
+}
+{
+	const res = await a.validateAsync('admin', AvailableUsername)
+	assert(!res.ok && res.reason === 'The username is already taken.')
+}
+{
+	const res = await a.validateAsync(0, AvailableUsername)
+	assert.deepStrictEqual(res, { ok: false, reason: codedError('notString') })
+}
+assert(await a.validateAsync(AvailableUsername)('someone').then(res => res.ok))
+
+assert(await a.isAsync('someone', AvailableUsername) === true)
+assert(await a.isAsync('admin', AvailableUsername) === false)
+assert(await a.isAsync('', h.string) === true)
+
+assert(await a.assertIsAsync('someone', AvailableUsername) === 'someone')
+await assert.rejects(a.assertIsAsync('admin', AvailableUsername), ValidationError)
+
+{
+	const iv = a.pipeAsync(h.string, AvailableUsername)
+	assert(await a.isAsync('someone', iv))
+	assert(!await a.isAsync('admin', iv))
+	assert(!await a.isAsync(0, iv))
+}
+{
+	const iv = a.orAsync(h.number, AvailableUsername)
+	compileOnly(() => {
+		iv satisfies a.AsyncIntermediateValidator<number | string, any>
+	})
+	assert(await a.isAsync(0, iv))
+	assert(await a.isAsync('someone', iv))
+	assert(!await a.isAsync('admin', iv))
+	// the output of the passed validator is produced
+	assert.deepStrictEqual(await a.validateAsync(' a ', a.orAsync(h.number, h.trim)), { ok: true, value: 'a' })
+}
+{
+	const iv = a.andAsync(h.string, AvailableUsername)
+	assert(await a.isAsync('someone', iv))
+	const res = await a.validateAsync('admin', iv)
+	assert(!res.ok && formatMessage(res.reason[0]) === 'The value did not pass all of the given validators.')
+	// each validator receives the output of the previous one
+	assert.deepStrictEqual(await a.validateAsync(' someone ', a.andAsync(h.trim, AvailableUsername)), { ok: true, value: 'someone' })
+	assert(!await a.isAsync(' admin ', a.andAsync(h.trim, AvailableUsername)))
+}
+{
+	const User = a.propsAsync({
+		name: AvailableUsername,
+		age: h.number,
+	})
+	compileOnly(() => {
+		0 as unknown as ValidationTargetOf<typeof User> satisfies { name: string; age: number }
+	})
+	assert(await a.isAsync({ name: 'someone', age: 0 }, User))
+	assert(!await a.isAsync({ name: 'admin', age: 0 }, User))
+	assert(!await a.isAsync({ name: 'someone' }, User))
+	assert(!await a.isAsync(0, User))
+	
+	const res = await a.validateAsync({ name: 'admin', age: 0 }, User)
+	assert(!res.ok && formatError(res.reason) === 'name: The username is already taken.')
+	
+	assert(await a.isAsync({ age: 0 }, a.propsAsync({ name: AvailableUsername, age: h.number }, { partial: true })))
+	assert(!await a.isAsync({ name: 'someone', age: 0, extra: 0 }, a.propsAsync({ name: AvailableUsername, age: h.number }, { allowExtra: false })))
+	assert.deepStrictEqual(
+		await a.validateAsync({ name: 'someone', age: 0, extra: 0 }, a.propsAsync({ name: AvailableUsername, age: h.number }, { extra: 'strip' })),
+		{ ok: true, value: { name: 'someone', age: 0 } },
+	)
+	// nested extra properties are stripped as well
+	assert.deepStrictEqual(
+		await a.validateAsync({ u: { a: 1, b: 2 }, z: 1 }, a.propsAsync({ u: h.props({ a: h.number }, { extra: 'strip' }) }, { extra: 'strip' })),
+		{ ok: true, value: { u: { a: 1 } } },
+	)
+	const input = { u: { a: 1, b: 2 }, v: [{ a: 1, b: 2 }], z: 1 }
+	assert.deepStrictEqual(
+		await a.validateAsync(input, a.propsAsync({ u: h.props({ a: h.number }), v: h.arrayOf(h.props({ a: h.number })) }, { extra: 'strip' })),
+		{ ok: true, value: { u: { a: 1 }, v: [{ a: 1 }] } },
+	)
+	assert.deepStrictEqual(input, { u: { a: 1, b: 2 }, v: [{ a: 1, b: 2 }], z: 1 }, 'the value is not modified')
+}
+{
+	// property modifiers work as on `props`
+	const User = a.propsAsync({
+		name: AvailableUsername,
+		nickname: h.optional(h.string),
+		age: h.withDefault(h.number, 5),
+		bio: h.trim,
+	})
+	compileOnly(() => {
+		0 as unknown as ValidationTargetOf<typeof User> satisfies { name: string; nickname?: string; age: number; bio: string }
+	})
+	assert.deepStrictEqual(await a.validateAsync({ name: 'someone', bio: ' a ' }, User), { ok: true, value: { name: 'someone', age: 5, bio: 'a' } })
+	assert.deepStrictEqual(await a.validateAsync({ name: 'someone', nickname: 'x', age: 1, bio: '' }, User), { ok: true, value: { name: 'someone', nickname: 'x', age: 1, bio: '' } })
+	assert(!await a.isAsync({ name: 'someone', nickname: 0, bio: '' }, User))
+	assert(!await a.isAsync({ name: 'someone', age: '', bio: '' }, User))
+	assert(!await a.isAsync({ nickname: 'x', bio: '' }, User))
+	
+	const obj = { name: 'someone', age: 0, bio: '' }
+	const res = await a.validateAsync(obj, User)
+	assert(res.ok && res.value === obj, 'the object is not copied if nothing is transformed')
+}
+{
+	const iv = a.arrayOfAsync(AvailableUsername)
+	assert(await a.isAsync([], iv))
+	assert(await a.isAsync(['a', 'b'], iv))
+	assert(!await a.isAsync(['a', 'admin'], iv))
+	assert(!await a.isAsync('a', iv))
+	
+	// the array is copied only if any of the elements is transformed
+	assert.deepStrictEqual(await a.validateAsync(['1', '2'], a.arrayOfAsync(h.coerce.number)), { ok: true, value: [1, 2] })
+	const arr = [1]
+	const res = await a.validateAsync(arr, a.arrayOfAsync(h.coerce.number))
+	assert(res.ok && res.value === arr)
+}
+
+compileOnly(() => {
+	// sync validators can be delegated to from async validators
+	a.asyncValidator(async function*(x) {
+		const str = yield* (h.string satisfies IntermediateValidator<string, CodedError<'notString'>>)(x)
+		return str satisfies string
+	})
+})
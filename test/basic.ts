@@ -1,7 +1,7 @@
 import assert from 'node:assert'
-import { IntermediateValidator, require, Result, validate, validator, validatorFor } from '../src/validator.js'
+import { IntermediateValidator, require, Result, validate, validator, validatorFor, validateAll, attempt, giveUp } from '../src/validator.js'
 import { is } from '../src/predicate.js'
-import { assertIs } from '../src/assert.js'
+import { assertIs, assertion, ValidationError, type Assertion } from '../src/assert.js'
 import { compileOnly } from './common.js'
 
 const genYields = <Y>(gen: Generator<Y>, x: NoInfer<Y>) => {
@@ -82,9 +82,50 @@ assert.doesNotThrow(() => {
 })
 assert.throws(() => {
 	assertIs(notStr, myString)
-})
+}, (err: unknown) => err instanceof ValidationError && err.message == '0' && err.cause === 0)
+{
+	const err = new ValidationError(0, 'secret', { redact: () => '[redacted]' })
+	assert(err instanceof Error)
+	assert.strictEqual(err.name, 'ValidationError')
+	assert.strictEqual(err.reason, 0)
+	assert.deepStrictEqual(err.path, [])
+	assert.strictEqual(err.input, '[redacted]')
+	assert.match(err.stack ?? '', /^ValidationError: 0\n/)
+	
+	const assertString: Assertion<string> = assertion(myString)
+	assert.doesNotThrow(() => {
+		assertString(str)
+		str satisfies string
+	})
+	assert.throws(() => assertString(notStr), (err: unknown) => err instanceof ValidationError && err.input === 0)
+	
+	// errors can be constructed freely
+	class MyError extends Error {}
+	const assertStringCustom: Assertion<string> = assertion(myString, {
+		error: reason => new MyError(`reason: ${reason satisfies number}`),
+	})
+	assert.throws(() => assertStringCustom(notStr), (err: unknown) => err instanceof MyError && err.message == 'reason: 0')
+}
 
 // NOTE: prevent the function returning values other than boolean, by `=== someBool`
 assert(is(str, myString) === true)
 assert(is(notStr, myString) === false)
 if (is(str, myString)) str satisfies string
+
+{
+	const pair = validator(function*(x: [unknown, unknown]) {
+		const first = yield* attempt(myString(x[0]))
+		const second = yield* attempt(myString(x[1]))
+		if (!first.ok || !second.ok) giveUp()
+		
+		return x as [string, string]
+	})
+	const both = validateAll([0, 0], pair)
+	assert(!both.ok && both.reason.length == 2)
+	const one = validateAll(['', 0], pair)
+	assert(!one.ok && one.reason.length == 1)
+	assert(validateAll(['', ''], pair).ok)
+	// without collecting, the validation stops at the first error as usual
+	const firstOnly = validate([0, 0], pair)
+	assert(!firstOnly.ok && firstOnly.reason === 0)
+}
@@ -1,5 +1,19 @@
+import assert from 'node:assert'
+import { type AnyIntermediateValidator, validate, formatError } from '../src/validator.js'
+
 /**
  * The success of compilation of the function body means the success of the test.
  * No runtime execution needed.
  */
 export const compileOnly = (_fn: () => void) => {}
+
+/**
+ * Validates the value, expecting a failure.
+ * 
+ * @returns The report of the failure by {@linkcode formatError}.
+ */
+export const reportOf = (x: unknown, iv: AnyIntermediateValidator) => {
+	const res = validate(x, iv)
+	assert(!res.ok)
+	return formatError(res.reason)
+}
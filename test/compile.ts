@@ -0,0 +1,117 @@
+import assert from 'node:assert'
+import * as h from '../src/helper.js'
+import * as r from '../src/refinement.js'
+import { type IntermediateValidator, type AnyIntermediateValidator, ok, fail, validate, validateAll, validator, brand, mapError, wrapError, wrapErrorAt, getLeafError, formatError, isErrorWithCause } from '../src/validator.js'
+import { is } from '../src/predicate.js'
+import { compile } from '../src/compile.js'
+
+// compiled validators should behave exactly like the generators, including the shape of errors
+const same = (iv: AnyIntermediateValidator, inputs: Array<unknown>) => {
+	const compiled = compile(iv)
+	for (const x of inputs) {
+		const res = iv(x).next()
+		const expected = res.done ? ok(res.value) : fail(res.value)
+		const actual = compiled(x)
+		assert.deepStrictEqual(actual, expected)
+		if (expected.ok) {
+			assert.strictEqual(actual.ok && actual.value === x, expected.value === x)
+		} else {
+			assert(!actual.ok)
+			assert.strictEqual(isErrorWithCause(actual.reason), isErrorWithCause(expected.reason))
+			assert.strictEqual(formatError(actual.reason), formatError(expected.reason))
+			assert.deepStrictEqual(getLeafError(actual), getLeafError(expected))
+		}
+	}
+}
+
+const primitives = [0, NaN, 'a', ' a ', true, 0n, null, undefined, Symbol.iterator, () => {}, {}, []]
+for (const iv of [h.any, h.string, h.number, h.boolean, h.bigInt, h.null_, h.undefined_, h.symbol, h.function, h.object, h.array, h.trim]) {
+	same(iv, primitives)
+}
+same(h.equal(0), primitives)
+same(h.oneOf('a', NaN, null), primitives)
+same(h.not()(h.string), primitives)
+same(h.or(h.string, h.number), primitives)
+same(h.nullable(h.or(h.string, h.boolean)), primitives)
+same(h.nullishable(h.string), primitives)
+same(h.and(h.string, r.minLength(2)), primitives)
+same(h.and(h.props({ n: h.coerce.number }), h.props({ m: h.coerce.number })), [{ n: '1', m: '2' }, { n: 1, m: 'a' }, {}])
+same(h.pipe(h.string, r.email), ['a', 'a@b.c', 0])
+same(h.transform(h.number, n => n + 1), primitives)
+same(wrapError(h.string, 'custom'), primitives)
+same(wrapErrorAt(h.string, 'custom', ['a']), primitives)
+same(mapError(h.string, err => ({ err })), primitives)
+same(brand<'Id'>()(h.trim), primitives)
+same(h.propValueOf({ a: 0, b: 'a', [Symbol.iterator]: null }), primitives)
+
+const User = h.props({
+	name: h.trim,
+	age: h.optional(h.number),
+	role: h.withDefault(h.oneOf('admin', 'member'), 'member'),
+	tags: h.arrayOf(h.string),
+})
+same(User, [
+	...primitives,
+	{ name: 'a', tags: [] },
+	{ name: ' a ', age: 1, role: 'admin', tags: ['x'] },
+	{ name: 'a', age: '1', tags: [] },
+	{ name: 'a', role: 'guest', tags: [] },
+	{ name: 'a', tags: ['x', 0] },
+	{ tags: [] },
+])
+same(h.strictProps({ a: h.number }, { allowExtra: false }), [{ a: 0 }, { a: 0, b: 0 }, { a: '', b: 0 }])
+same(h.looseProps({ length: h.number }), ['abc', 0, {}])
+same(h.props({ a: h.number }, { partial: true, own: false }), [{}, Object.create({ a: 0 }), Object.create({ a: '' })])
+same(h.prop('a', h.coerce.number), [{ a: '1' }, { a: 1 }, { a: 'x' }, {}, 0])
+same(h.dict(h.string, h.number), [{}, { a: 0 }, { a: '' }, { [Symbol.iterator]: 0 }, 0])
+same(h.dict(h.trim, h.coerce.number), [{ a: '1' }, { ' b ': 2 }, { a: 'x' }])
+same(h.nonEmptyArrayOf(h.trim), [[], [' a'], ['a'], [0], 'a'])
+same(h.taggedUnion('kind', { a: h.props({ x: h.number }), b: h.props({}) }), [{ kind: 'a', x: 0 }, { kind: 'a' }, { kind: 'b' }, { kind: 'c' }, 0])
+same(h.taggedUnion('v', { 1: h.any, true: h.props({}) }), [{ v: 1 }, { v: '1' }, { v: 1n }, { v: true }, { v: null }])
+same(h.tuple(h.string, h.rest(h.number)), [['a'], ['a', 0], ['a', ''], []])
+
+// validators that are not built-ins are run as usual
+const custom = validator(function*(x) {
+	if (x !== 1) throw yield { code: 'not one' }
+	return x
+})
+same(h.arrayOf(h.or(custom, h.string)), [[1, 'a'], [2]])
+
+// recursive validators
+interface Tree {
+	value: number
+	children: Array<Tree>
+}
+const Tree = h.lazy((): IntermediateValidator<Tree, unknown> => h.props({ value: h.number, children: h.arrayOf(Tree) }))
+same(Tree, [
+	{ value: 0, children: [{ value: 1, children: [] }] },
+	{ value: 0, children: [{ value: '1', children: [] }] },
+])
+
+// `is` and `validate` take the fast path for built-ins, while custom validators keep the generator protocol
+assert(is(0, h.number))
+assert(!is('0', h.arrayOf(h.number)))
+assert(is([1], h.arrayOf(custom)))
+assert(!is([2], h.arrayOf(custom)))
+assert.deepStrictEqual(validate([' a'], h.arrayOf(h.trim)), { ok: true, value: ['a'] })
+assert.deepStrictEqual(validate(2, custom), { ok: false, reason: { code: 'not one' } })
+{
+	// validators are compiled on their second use, with the same results as the first
+	const Point = h.props({ x: h.trim })
+	for (let i = 0; i < 3; i++) {
+		assert.deepStrictEqual(validate({ x: ' a' }, Point), { ok: true, value: { x: 'a' } })
+		assert.deepStrictEqual(validate({ x: 0 }, Point), validate({ x: 0 }, h.props({ x: h.trim })))
+	}
+	// combinators take the fast path, and `validateAll` still collects every error through them
+	const Pair = mapError(h.tuple(h.string, h.string), err => ({ err }))
+	for (let i = 0; i < 3; i++) {
+		assert(is(['a', 'b'], Pair))
+		const res = validateAll([0, 0], Pair)
+		assert(!res.ok)
+		assert.strictEqual(res.reason.length, 2)
+	}
+}
+
+// extra properties
+same(h.props({ a: h.arrayOf(h.props({ b: h.trim })) }, { extra: 'strip' }), [{ a: [{ b: ' ', c: 0 }], d: 0 }, { a: [{}] }, 0])
+same(h.props({ a: h.number }, { extra: 'reject' }), [{ a: 0 }, { a: 0, b: 0 }])
@@ -0,0 +1,77 @@
+import assert from 'node:assert'
+import * as h from '../src/helper.js'
+import { validator, brand, wrapErrorAt } from '../src/validator.js'
+import { describe, type Descriptor } from '../src/descriptor.js'
+
+// walks every built-in reachable from the validator
+const kinds = (iv: Parameters<typeof describe>[0]): Array<Descriptor['kind']> => {
+	const desc = describe(iv)
+	if (!desc) return []
+	if (!('children' in desc)) return [desc.kind]
+	
+	return [desc.kind, ...Object.values(desc.children).flatMap(kinds)]
+}
+
+assert.deepStrictEqual(describe(h.string), { kind: 'string' })
+assert.deepStrictEqual(describe(h.any), { kind: 'any' })
+assert.deepStrictEqual(describe(h.array), { kind: 'array' })
+assert.deepStrictEqual(describe(h.trim), { kind: 'trim' })
+assert.deepStrictEqual(describe(h.coerce.date), { kind: 'coerce', target: 'date' })
+assert.deepStrictEqual(describe(h.instanceOf(Date)), { kind: 'instanceOf', class: Date })
+assert.deepStrictEqual(describe(h.date), { kind: 'date' })
+assert.deepStrictEqual(describe(h.templateLiteral('user-', h.number)), {
+	kind: 'templateLiteral',
+	parts: ['user-', h.number],
+	pattern: /^(?:user-)(?:[+-]?(?:\d+(?:\.\d*)?|\.\d+)(?:[eE][+-]?\d+)?)$/,
+	template: 'user-${number}',
+})
+assert.deepStrictEqual(describe(h.uint8Array), { kind: 'typedArray', name: 'Uint8Array' })
+assert.deepStrictEqual(describe(h.not()(h.string)), { kind: 'not', children: { inner: h.string } })
+assert.deepStrictEqual(describe(h.nullishable(h.number)), { kind: 'nullishable', children: { inner: h.number } })
+assert.deepStrictEqual(describe(brand<'Id'>()(h.string)), { kind: 'brand', children: { inner: h.string } })
+
+const obj = { a: 0 }
+assert.deepStrictEqual(describe(h.keyOf(obj, { own: false })), { kind: 'keyOf', object: obj, options: { own: false } })
+assert.deepStrictEqual(describe(h.propValueOf(obj)), { kind: 'propValueOf', object: obj, values: Object.values(obj) })
+
+assert.deepStrictEqual(describe(h.prop('a', h.string)), {
+	kind: 'prop',
+	key: 'a',
+	children: { inner: h.string },
+	options: { partial: false, own: true },
+})
+assert.deepStrictEqual(describe(h.looseProps({ a: h.string }, { partial: true })), {
+	kind: 'props',
+	children: { a: h.string },
+	options: { allowExtra: true, extra: 'allow', partial: true, own: true },
+})
+assert.deepStrictEqual(describe(h.shape({ a: h.string, b: h.number }, { allowExtra: false }).pick(['a'])), {
+	kind: 'props',
+	children: { a: h.string },
+	options: { allowExtra: false, extra: 'reject', partial: false, own: true },
+})
+assert.deepStrictEqual(describe(wrapErrorAt(h.string, 'error', ['a'])), {
+	kind: 'wrapError',
+	children: { inner: h.string },
+	error: 'error',
+	path: ['a'],
+})
+
+const fn = (x: string) => x.length
+assert.deepStrictEqual(describe(h.transform(h.string, fn)), { kind: 'transform', children: { inner: h.string }, fn })
+
+assert.deepStrictEqual(
+	kinds(h.props({
+		name: h.optional(h.trim),
+		tags: h.arrayOf(h.pipe(h.string, h.not()(h.equal('')))),
+		scores: h.dict(h.string, h.tuple(h.number, h.withDefault(h.number, 0))),
+	})),
+	['props', 'optional', 'trim', 'arrayOf', 'pipe', 'string', 'not', 'equal', 'dict', 'string', 'tuple', 'number', 'withDefault', 'number'],
+)
+
+// custom validators are not described
+const custom = validator(function*(x) {
+	return x
+})
+assert.strictEqual(describe(custom), undefined)
+assert.deepStrictEqual(kinds(h.arrayOf(custom)), ['arrayOf'])
@@ -1,8 +1,11 @@
 import assert from 'node:assert'
+import vm from 'node:vm'
 import * as h from '../src/helper.js'
-import { type IntermediateValidator, validate, ValidationTargetOf } from '../src/validator.js'
+import * as r from '../src/refinement.js'
+import { type IntermediateValidator, validate, validator, validatorFor, brand, type Brand, ValidationTargetOf, getLeafError, formatError, wrapError, isErrorWithCause, validateAll, ValidationInputOf, ValidationOutputOf } from '../src/validator.js'
 import { is } from '../src/predicate.js'
-import { compileOnly } from './common.js'
+import { codedError, isCodedError, formatMessage } from '../src/message.js'
+import { compileOnly, reportOf } from './common.js'
 
 const testHelper = <T extends Req, Req>(
 	iv: IntermediateValidator<T, any, Req>,
@@ -244,6 +247,63 @@ testHelper(
 	x => new Set(Reflect.ownKeys(x)).difference(new Set(['foo', 'bar'])).size <= 0,
 	() => {} // type checking is meaningless here
 )
+assert(!validate({ foo: '', bar: 0 }, h.strictProps({ foo: h.string }, { allowExtra: true, extra: 'reject' })).ok)
+{
+	const Tag = h.props({ label: h.string })
+	const User = h.props({
+		name: h.trim,
+		tags: h.arrayOf(Tag),
+		pair: h.tuple(Tag, h.rest(h.nullable(Tag)), h.number),
+		profile: h.optional(h.props({ bio: h.string }, { extra: 'reject' })),
+	}, { extra: 'strip' })
+	const user = { name: ' a ', admin: true, tags: [{ label: '', color: 'red' }], pair: [{ label: '', x: 0 }, null, { label: '', y: 0 }, 0] }
+	assert.deepStrictEqual(validate(user, User), {
+		ok: true,
+		value: { name: 'a', tags: [{ label: '' }], pair: [{ label: '' }, null, { label: '' }, 0] },
+	})
+	assert.deepStrictEqual(user.tags, [{ label: '', color: 'red' }], 'the value is not modified')
+	assert(!validate({ ...user, profile: { bio: '', extra: 0 } }, User).ok, 'nested validators still fail on extra properties')
+	
+	const Empty = h.props({}, { extra: 'strip' })
+	const obj = {}
+	const res = validate(obj, Empty)
+	assert(res.ok && res.value !== obj, 'a new object is produced even without extra properties')
+	assert.deepStrictEqual(validate({ [Symbol.iterator]: 0 }, h.props({ [Symbol.iterator]: h.number }, { extra: 'strip' })), { ok: true, value: { [Symbol.iterator]: 0 } })
+	assert.deepStrictEqual(validate(Object.create({ a: 0 }), h.props({ a: h.number }, { own: false, extra: 'strip' })), { ok: true, value: { a: 0 } })
+	
+	// the discriminant is kept even if the definition for the tag does not have it
+	const Shapes = h.props({ shapes: h.arrayOf(h.taggedUnion('kind', { circle: h.props({ radius: h.number }), any: h.any })) }, { extra: 'strip' })
+	assert.deepStrictEqual(validate({ shapes: [{ kind: 'circle', radius: 0, x: 0 }, { kind: 'any', x: 0 }] }, Shapes), {
+		ok: true,
+		value: { shapes: [{ kind: 'circle', radius: 0 }, { kind: 'any', x: 0 }] },
+	})
+	// values are stripped through the branch of or that they passed, and through the values of dict
+	const Mixed = h.props({ a: h.or(h.props({ x: h.string }), h.number), d: h.dict(h.string, h.props({ y: h.string })) }, { extra: 'strip' })
+	assert.deepStrictEqual(validate({ a: { x: '', secret: 0 }, d: { k: { y: '', secret: 0 } }, secret: 0 }, Mixed), {
+		ok: true,
+		value: { a: { x: '' }, d: { k: { y: '' } } },
+	})
+	assert.deepStrictEqual(validate({ a: 0, d: {} }, Mixed), { ok: true, value: { a: 0, d: {} } })
+	// values are stripped through the branch that produced them, even if the output no longer passes the branch
+	const Transformed = h.props({ v: h.or(h.props({ a: h.transform(h.string, Number) }), h.props({ a: h.number, b: h.number })) }, { extra: 'strip' })
+	for (let i = 0; i < 2; i++) {
+		// NOTE: validators are compiled when they are used for the second time
+		assert.deepStrictEqual(validate({ v: { a: '1', b: 0 } }, Transformed), { ok: true, value: { v: { a: 1 } } })
+	}
+	// the properties that any validator of and specifies are kept
+	const Both = h.props({ v: h.and(h.props({ x: h.string }), h.props({ y: h.string })) }, { extra: 'strip' })
+	assert.deepStrictEqual(validate({ v: { x: '', y: '', secret: 0 } }, Both), { ok: true, value: { v: { x: '', y: '' } } })
+	// the elements of collections are stripped as well
+	const Collections = h.props({
+		m: h.mapOf(h.string, h.props({ x: h.string })),
+		s: h.setOf(h.props({ x: h.string })),
+		i: h.iterableOf(h.props({ x: h.string })),
+	}, { extra: 'strip' })
+	assert.deepStrictEqual(validate({ m: new Map([['k', { x: '', secret: 0 }]]), s: new Set([{ x: '', secret: 0 }]), i: [{ x: '', secret: 0 }] }, Collections), {
+		ok: true,
+		value: { m: new Map([['k', { x: '' }]]), s: new Set([{ x: '' }]), i: [{ x: '' }] },
+	})
+}
 testHelper(
 	h.strictProps({}),
 	{
@@ -281,6 +341,17 @@ compileOnly(() => {
 	// requires nothing
 	h.dict(h.string, h.number)(0)
 })
+{
+	// the record is copied only if any of the keys or values is transformed
+	const input = { a: '1', b: '2' }
+	assert.deepStrictEqual(validate(input, h.dict(h.string, h.coerce.number)), { ok: true, value: { a: 1, b: 2 } })
+	assert.deepStrictEqual(input, { a: '1', b: '2' }, 'the value is not modified')
+	assert.deepStrictEqual(validate({ ' a ': 0 }, h.dict(h.trim, h.number)), { ok: true, value: { a: 0 } })
+	const Untransformed = h.dict(h.string, h.number)
+	const obj = { a: 0 }
+	const res = validate(obj, Untransformed)
+	assert(res.ok && res.value === obj)
+}
 
 testHelper(
 	h.array,
@@ -347,6 +418,85 @@ testHelper(
 			// @ts-expect-error
 			: x satisfies [string, number]
 )
+testHelper(
+	h.tuple(h.string, h.optionalElement(h.number), h.optionalElement(h.boolean)),
+	{
+		ok: [[''], ['', 0], ['', 0, true]],
+		fail: [[], [0], ['', ''], ['', 0, 0], ['', 0, true, 0]],
+	},
+	x => Array.isArray(x) && 1 <= x.length && x.length <= 3 && typeof x[0] == 'string' && (x.length < 2 || typeof x[1] == 'number') && (x.length < 3 || typeof x[2] == 'boolean'),
+	(x, pass) =>
+		pass(x)
+			? x satisfies [string, number?, boolean?]
+			// @ts-expect-error
+			: x satisfies [string, number?, boolean?]
+)
+testHelper(
+	h.tuple(h.string, h.rest(h.number)),
+	{
+		ok: [[''], ['', 0], ['', 0, 1]],
+		fail: [[], [0], ['', ''], ['', 0, '']],
+	},
+	x => Array.isArray(x) && x.length >= 1 && typeof x[0] == 'string' && x.slice(1).every(elem => typeof elem == 'number'),
+	(x, pass) =>
+		pass(x)
+			? x satisfies [string, ...Array<number>]
+			// @ts-expect-error
+			: x satisfies [string, ...Array<number>]
+)
+testHelper(
+	h.tuple(h.string, h.optionalElement(h.number), h.rest(h.boolean)),
+	{
+		ok: [[''], ['', 0], ['', 0, true, false]],
+		fail: [[], ['', true], ['', 0, 0]],
+	},
+	x => Array.isArray(x) && x.length >= 1 && typeof x[0] == 'string' && (x.length < 2 || typeof x[1] == 'number') && x.slice(2).every(elem => typeof elem == 'boolean'),
+	(x, pass) =>
+		pass(x)
+			? x satisfies [string, number?, ...Array<boolean>]
+			// @ts-expect-error
+			: x satisfies [string, number?, ...Array<boolean>]
+)
+testHelper(
+	h.tuple(h.rest(h.string), h.number, h.boolean),
+	{
+		ok: [[0, true], ['', 0, true], ['', '', 0, true]],
+		fail: [[], [true], ['', true], [0, 0, true], ['', 0, 0]],
+	},
+	x => Array.isArray(x) && x.length >= 2 && x.slice(0, -2).every(elem => typeof elem == 'string') && typeof x.at(-2) == 'number' && typeof x.at(-1) == 'boolean',
+	(x, pass) =>
+		pass(x)
+			? x satisfies [...Array<string>, number, boolean]
+			// @ts-expect-error
+			: x satisfies [...Array<string>, number, boolean]
+)
+compileOnly(() => {
+	const Args = h.tuple(h.string, h.optionalElement(h.coerce.number), h.rest(h.string))
+	0 as unknown as ValidationOutputOf<typeof Args> satisfies [string, number?, ...Array<string>]
+	0 as unknown as ValidationInputOf<typeof Args> satisfies [string, (number | string)?, ...Array<string>]
+	// @ts-expect-error
+	0 as unknown as ValidationOutputOf<typeof Args> satisfies [string, number]
+})
+{
+	// length errors report the allowed range
+	assert.strictEqual(reportOf([], h.tuple(h.string, h.number)), 'The array has unexpected length. Expected: 2 Actual: 0')
+	assert.strictEqual(reportOf([], h.tuple(h.string, h.optionalElement(h.number))), 'The array has unexpected length. Expected: 1 to 2 Actual: 0')
+	assert.strictEqual(reportOf([], h.tuple(h.string, h.rest(h.number))), 'The array has unexpected length. Expected: at least 1 Actual: 0')
+	
+	// elements are reported at their actual index
+	const res = validate(['a', 0, 1, ''], h.tuple(h.string, h.rest(h.number), h.string))
+	assert(res.ok)
+	const failed = validate(['a', 0, '', 1], h.tuple(h.string, h.rest(h.number), h.number))
+	assert(!failed.ok)
+	assert.deepStrictEqual(getLeafError(failed).path, [2])
+	
+	assert.deepStrictEqual(validate(['a', '1', 'b'], h.tuple(h.string, h.optionalElement(h.coerce.number), h.rest(h.string))), { ok: true, value: ['a', 1, 'b'] })
+	
+	assert.throws(() => h.tuple(h.rest(h.string), h.rest(h.number)), TypeError)
+	assert.throws(() => h.tuple(h.rest(h.string), h.optionalElement(h.number)), TypeError)
+	assert.throws(() => h.tuple(h.optionalElement(h.string), h.number), TypeError)
+	assert.throws(() => h.tuple(h.optionalElement(h.string), h.rest(h.string), h.number), TypeError)
+}
 
 
 // complex helpers
@@ -407,6 +557,13 @@ testHelper(
 			// @ts-expect-error
 			: x satisfies { foo: string; bar: number }
 )
+{
+	// each validator receives the output of the previous one, and the output of the last one is produced
+	const Both = h.and(h.props({ n: h.coerce.number }), h.props({ m: h.coerce.number }))
+	assert.deepStrictEqual(validate({ n: '1', m: '2' }, Both), { ok: true, value: { n: 1, m: 2 } })
+	assert.deepStrictEqual(validate(' 1 ', h.and(h.trim, h.coerce.number)), { ok: true, value: 1 })
+	assert.strictEqual(is('1', h.and(h.coerce.number, h.string)), false)
+}
 
 testHelper(
 	h.not<{}>()(h.or(h.null_, h.undefined_)),
@@ -458,6 +615,58 @@ compileOnly(() => {
 	0 as Expected satisfies ValidationTargetOf<typeof iv>
 })
 
+testHelper(
+	h.templateLiteral('user-', h.number),
+	{
+		ok: ['user-0', 'user--1.5', 'user-1e3'],
+		fail: [0, 'user-', 'user-a', 'user-1 ', 'member-0'],
+	},
+	x => typeof x == 'string' && /^user-[+-]?(\d+(\.\d*)?|\.\d+)(e[+-]?\d+)?$/i.test(x),
+	(x, pass) =>
+		pass(x)
+			? x satisfies `user-${number}`
+			// @ts-expect-error
+			: x satisfies `user-${number}`
+)
+testHelper(
+	h.templateLiteral(h.oneOf('a', 'b'), ':', h.bigInt, h.templateLiteral('/', h.boolean), 1, null),
+	{
+		ok: ['a:0/true1null', 'b:-12/false1null'],
+		fail: ['c:0/true1null', 'a:0.5/true1null', 'a:0/1null', 'a:0/true1'],
+	},
+	x => typeof x == 'string' && /^[ab]:-?\d+\/(true|false)1null$/.test(x),
+	(x, pass) =>
+		pass(x)
+			? x satisfies `${'a' | 'b'}:${bigint}/${boolean}1null`
+			// @ts-expect-error
+			: x satisfies `${'a' | 'b'}:${bigint}/${boolean}1null`
+)
+{
+	// placeholders match any split of the string
+	assert.strictEqual(is('a@b@c', h.templateLiteral(h.string, '@', h.string, '@c')), true)
+	// literal parts are not patterns
+	assert.strictEqual(is('a+b', h.templateLiteral('a+', h.string)), true)
+	assert.strictEqual(is('aab', h.templateLiteral('a+', h.string)), false)
+	
+	assert.strictEqual(reportOf('user-', h.templateLiteral('user-', h.number)), 'The string does not match the template `user-${number}`.')
+	assert.strictEqual(reportOf('a', h.templateLiteral('a', h.null_, h.undefined_)), 'The string does not match the template `anullundefined`.')
+	
+	// validators of the parts run on the segments, converted into the types of the parts
+	const Slug = h.templateLiteral('user-', h.pipe(h.string, r.minLength(1)))
+	assert.strictEqual(is('user-a', Slug), true)
+	assert.strictEqual(reportOf('user-', Slug), 'The string does not match the template `user-${string}`. > The string is too short. Expected: at least 1 Actual: 0')
+	const Version = h.templateLiteral('v', h.pipe(h.number, r.integer), '.', brand<'Minor'>()(h.pipe(h.number, r.positive)))
+	assert.strictEqual(is('v1.2', Version), true)
+	assert.strictEqual(is('v1.5.2', Version), false)
+	assert.strictEqual(is('v1.0', Version), false)
+	0 as unknown as ValidationTargetOf<typeof Version> satisfies `v${number}.${number}`
+	// unsupported parts are rejected at both compile time and run time
+	// @ts-expect-error
+	assert.throws(() => h.templateLiteral(h.object), TypeError)
+	// @ts-expect-error
+	assert.throws(() => h.templateLiteral(h.oneOf(Symbol())), TypeError)
+}
+
 {
 	class A { foo = '' }
 	testHelper(
@@ -474,3 +683,652 @@ compileOnly(() => {
 				: x satisfies A
 	)
 }
+
+// error paths
+
+{
+	const Users = h.props({
+		users: h.arrayOf(h.props({
+			name: h.string,
+			address: h.props({ zip: h.string }),
+		})),
+	})
+	const res = validate({ users: [{ name: '', address: { zip: '' } }, { name: '', address: { zip: 0 } }] }, Users)
+	assert(!res.ok)
+	assert.deepStrictEqual(getLeafError(res), { path: ['users', 1, 'address', 'zip'], message: codedError('notString') })
+	// the original messages are kept
+	assert(isErrorWithCause(res.reason) && 'path' in res.reason)
+	assert.deepStrictEqual(res.reason[0], codedError('invalidProperty', { key: 'users' }))
+	assert.deepStrictEqual(res.reason.path, ['users'])
+}
+{
+	const res = validate({ a: 0, b: '' }, h.dict(h.string, h.number))
+	assert(!res.ok && isErrorWithCause(res.reason))
+	assert.deepStrictEqual(getLeafError(res).path, ['b'])
+}
+{
+	const res = validate(['', ''], h.tuple(h.string, h.number))
+	assert(!res.ok)
+	assert.deepStrictEqual(getLeafError(res), { path: [1], message: codedError('notNumber') })
+}
+{
+	// missing properties have the path to them as well
+	const res = validate({ user: {} }, h.props({ user: h.props({ name: h.string }) }))
+	assert(!res.ok)
+	assert.deepStrictEqual(getLeafError(res), { path: ['user', 'name'], message: codedError('missingKey', { key: 'name', own: true }) })
+}
+{
+	// errors without paths are followed as well
+	const res = validate({ foo: { bar: 0 } }, h.props({ foo: h.and(h.props({ bar: h.string })) }))
+	assert(!res.ok)
+	assert.deepStrictEqual(getLeafError(res), { path: ['foo', 'bar'], message: codedError('notString') })
+}
+{
+	// user-defined tuple errors are not mistaken for errors with cause
+	const res = validate({ foo: 0 }, h.props({ foo: validator(function*(x) { throw yield ['a', 'b'] }) }))
+	assert(!res.ok)
+	assert.deepStrictEqual(getLeafError(res), { path: ['foo'], message: ['a', 'b'] })
+}
+
+// collecting errors
+
+{
+	const Form = h.props({
+		name: h.string,
+		age: h.number,
+		tags: h.arrayOf(h.string),
+		pos: h.tuple(h.number, h.number),
+		meta: h.dict(h.string, h.number),
+	}, { allowExtra: false })
+	const value = { name: 0, age: '', tags: ['', 0, 1], pos: ['', ''], meta: { a: 0, b: '' }, extra: 0 }
+	
+	const first = validate(value, Form)
+	assert(!first.ok)
+	
+	const res = validateAll(value, Form)
+	assert(!res.ok)
+	assert.deepStrictEqual(res.reason.map(err => getLeafError({ ok: false, reason: err }).path), [
+		['name'],
+		['age'],
+		['tags', 1],
+		['tags', 2],
+		['pos', 0],
+		['pos', 1],
+		['meta', 'b'],
+		[],
+	])
+	assert.deepStrictEqual(res.reason[0], first.reason)
+	assert.deepStrictEqual(res.reason.at(-1), codedError('extraProperties', { keys: ['extra'] }))
+	
+	const okRes = validateAll({ name: '', age: 0, tags: [], pos: [0, 0], meta: {} }, Form)
+	assert(okRes.ok)
+}
+{
+	const res = validateAll({}, h.and(h.strictProp('foo', h.string), h.strictProp('bar', h.string)))
+	assert(!res.ok && res.reason.length == 2)
+}
+{
+	// validators that do not collect errors stop at the first error
+	const res = validateAll(0, h.or(h.string, h.boolean))
+	assert(!res.ok && res.reason.length == 1)
+	assert(validateAll(h.string)('').ok)
+}
+
+// transformers
+
+{
+	const length = h.transform(h.string, str => str.length)
+	compileOnly(() => {
+		'' satisfies ValidationInputOf<typeof length>
+		0 satisfies ValidationOutputOf<typeof length>
+		// @ts-expect-error
+		0 satisfies ValidationInputOf<typeof length>
+	})
+	assert.deepStrictEqual(validate('abc', length), { ok: true, value: 3 })
+	assert(!validate(0, length).ok)
+	
+	const x: unknown = 'abc'
+	if (is(x, length)) x satisfies string // narrowed to the input, not the output
+}
+assert.deepStrictEqual(validate('  a b ', h.trim), { ok: true, value: 'a b' })
+{
+	const cases: Array<[unknown, number | undefined]> = [[1, 1], ['1.5', 1.5], [' 2 ', 2], ['', undefined], ['a', undefined], [NaN, undefined], [null, undefined]]
+	for (const [x, expected] of cases) {
+		const res = validate(x, h.coerce.number)
+		assert(expected === undefined ? !res.ok : res.ok && res.value === expected)
+	}
+}
+{
+	const cases: Array<[unknown, boolean | undefined]> = [[true, true], ['false', false], [1, true], [0, false], ['yes', undefined], [2, undefined]]
+	for (const [x, expected] of cases) {
+		const res = validate(x, h.coerce.boolean)
+		assert(expected === undefined ? !res.ok : res.ok && res.value === expected)
+	}
+}
+{
+	const res = validate('2020-01-02T00:00:00Z', h.coerce.date)
+	assert(res.ok && res.value.getTime() === Date.UTC(2020, 0, 2))
+	assert(validate(0, h.coerce.date).ok)
+	assert(!validate('not a date', h.coerce.date).ok)
+	assert(!validate(new Date(NaN), h.coerce.date).ok)
+	assert(!validate(null, h.coerce.date).ok)
+}
+{
+	const Query = h.props({
+		page: h.coerce.number,
+		name: h.trim,
+		tags: h.arrayOf(h.trim),
+		pair: h.tuple(h.coerce.number, h.string),
+		untouched: h.string,
+	})
+	compileOnly(() => {
+		0 as unknown as ValidationOutputOf<typeof Query> satisfies { page: number; name: string; tags: Array<string>; pair: [number, string] }
+		0 as unknown as ValidationInputOf<typeof Query> satisfies { page: number | string; name: string }
+		// @ts-expect-error
+		0 as unknown as ValidationInputOf<typeof Query> satisfies { page: number }
+	})
+	const input = { page: '2', name: ' a ', tags: [' b', 'c'], pair: ['1', ''], untouched: '' }
+	const res = validate(input, Query)
+	assert(res.ok)
+	assert.deepStrictEqual(res.value, { page: 2, name: 'a', tags: ['b', 'c'], pair: [1, ''], untouched: '' })
+	// the input is not mutated
+	assert(input.page === '2' && input.tags[0] === ' b')
+	
+	const x: unknown = input
+	if (is(x, Query)) x.page satisfies number | string
+}
+{
+	// values are not copied if nothing is transformed
+	const obj = { foo: '', bar: [''] }
+	const res = validate(obj, h.props({ foo: h.string, bar: h.arrayOf(h.string) }))
+	assert(res.ok && res.value === obj)
+}
+{
+	const res = validate('1', h.or(h.boolean, h.coerce.number))
+	assert(res.ok && res.value === 1)
+}
+
+// property modifiers
+
+{
+	const Person = h.props({
+		name: h.string,
+		phoneNumber: h.optional(h.string),
+		age: h.withDefault(h.number, 0),
+	})
+	compileOnly(() => {
+		type Output = ValidationOutputOf<typeof Person>
+		type Input = ValidationInputOf<typeof Person>
+		0 as unknown as Output satisfies { name: string; phoneNumber?: string; age: number }
+		({ name: '', age: 0 }) satisfies Output
+		// @ts-expect-error
+		({ name: '' }) satisfies Output
+		({ name: '' }) satisfies Input
+		// @ts-expect-error
+		({ phoneNumber: '' }) satisfies Input
+		
+		// @ts-expect-error
+		h.withDefault(h.number, '')
+	})
+	
+	assert.deepStrictEqual(validate({ name: '' }, Person), { ok: true, value: { name: '', age: 0 } })
+	assert.deepStrictEqual(validate({ name: '', phoneNumber: '', age: 1 }, Person), { ok: true, value: { name: '', phoneNumber: '', age: 1 } })
+	assert(!validate({ name: '', phoneNumber: 0 }, Person).ok)
+	assert(!validate({ name: '', age: '' }, Person).ok)
+	assert(!validate({ phoneNumber: '' }, Person).ok)
+	
+	const x: unknown = { name: '' }
+	if (is(x, Person)) {
+		const { phoneNumber, age } = x satisfies { name: string; phoneNumber?: string; age?: number }
+	}
+}
+{
+	// the given validator is not affected
+	const iv = h.string
+	h.optional(iv)
+	assert(!validate({}, h.props({ foo: iv })).ok)
+}
+testHelper(
+	h.strictProp('foo', h.optional(h.string)),
+	{
+		ok: [emptyObj, { foo: '' }],
+		fail: [{ foo: 0 }],
+	},
+	x => !('foo' in x) || typeof x.foo == 'string',
+	(x, pass) =>
+		pass(x)
+			? (x satisfies { foo?: string }).foo
+			// @ts-expect-error
+			: (x satisfies { foo?: string }).foo
+)
+testHelper(
+	h.nonEmptyArrayOf(h.string),
+	{
+		ok: [[''], ['', '']],
+		fail: [[], [0], ['', 0], emptyObj],
+	},
+	x => Array.isArray(x) && x.length > 0 && x.every(elem => typeof elem == 'string'),
+	(x, pass) =>
+		pass(x)
+			? x satisfies [string, ...Array<string>]
+			// @ts-expect-error
+			: x satisfies [string, ...Array<string>]
+)
+assert.strictEqual(reportOf([], h.nonEmptyArrayOf(h.string)), 'The array is empty.')
+assert.deepStrictEqual(validate(['1'], h.nonEmptyArrayOf(h.coerce.number)), { ok: true, value: [1] })
+
+// shapes
+
+{
+	const User = h.shape({
+		id: h.number,
+		name: h.string,
+		email: h.optional(h.string),
+		role: h.withDefault(h.oneOf('admin', 'member'), 'member'),
+	}, { allowExtra: false })
+	const UserUpdate = User.omit(['id']).partial()
+	const Credentials = User.pick(['name']).extend({ password: h.string })
+	const Contact = User.required(['email']).pick(['email'])
+	const Account = User.merge(h.shape({ id: h.string, active: h.boolean }))
+	compileOnly(() => {
+		type Output = ValidationOutputOf<typeof User>
+		0 as unknown as Output satisfies { id: number; name: string; email?: string; role: 'admin' | 'member' }
+		0 as unknown as ValidationOutputOf<typeof UserUpdate> satisfies { name?: string; email?: string; role: 'admin' | 'member' }
+		({}) satisfies ValidationInputOf<typeof UserUpdate>
+		// @ts-expect-error
+		({ id: 0 }) satisfies ValidationInputOf<typeof UserUpdate>
+		0 as unknown as ValidationOutputOf<typeof Credentials> satisfies { name: string; password: string }
+		// @ts-expect-error
+		({}) satisfies ValidationInputOf<typeof Contact>
+		0 as unknown as ValidationOutputOf<typeof Account> satisfies { id: string; active: boolean }
+		
+		// @ts-expect-error
+		User.pick(['foo'])
+	})
+	
+	assert.deepStrictEqual(validate({ id: 0, name: 'a' }, User), { ok: true, value: { id: 0, name: 'a', role: 'member' } })
+	assert(!validate({ id: 0, name: 'a', extra: 0 }, User).ok)
+	assert(!validate({ name: 'a' }, User).ok)
+	
+	assert.deepStrictEqual(validate({}, UserUpdate), { ok: true, value: { role: 'member' } })
+	assert(!validate({ id: 0 }, UserUpdate).ok, 'derived shapes keep the options')
+	assert(!validate({ name: 0 }, UserUpdate).ok)
+	assert.deepStrictEqual(Reflect.ownKeys(UserUpdate.defs), ['name', 'email', 'role'])
+	assert.strictEqual(UserUpdate.defs.role, User.defs.role, 'properties with modifiers are left as they are')
+	
+	assert(validate({ name: 'a', password: '' }, Credentials).ok)
+	assert(!validate({ name: 'a' }, Credentials).ok)
+	assert.deepStrictEqual(validate({ email: '' }, Contact), { ok: true, value: { email: '' } })
+	assert(!validate({}, Contact).ok)
+	assert(validate({ id: '', name: 'a', active: true }, Account).ok)
+	assert(!validate({ id: 0, name: 'a', active: true }, Account).ok)
+	assert(validate({}, User.partial().required(['name']).pick(['email'])).ok)
+	assert(!validate({}, User.partial(['name']).required().pick(['name'])).ok)
+	
+	// the original shape is not affected
+	assert.deepStrictEqual(Reflect.ownKeys(User.defs), ['id', 'name', 'email', 'role'])
+	assert(!validate({ name: 'a' }, User).ok)
+}
+
+// branded types
+
+{
+	type UserId = string & Brand<'UserId'>
+	type Email = string & Brand<'Email'>
+	const UserId = validatorFor<UserId>()(brand<'UserId'>()(h.string))
+	const Email = brand<'Email'>()(h.trim)
+	const User = h.props({ id: UserId, email: Email, friends: h.arrayOf(UserId) })
+	compileOnly(() => {
+		0 as unknown as ValidationTargetOf<typeof UserId> satisfies UserId
+		0 as unknown as ValidationTargetOf<typeof Email> satisfies Email
+		0 as unknown as ValidationOutputOf<typeof User> satisfies { id: UserId; email: Email; friends: Array<UserId> }
+		// transformers keep what they check
+		'' satisfies ValidationInputOf<typeof Email>
+		
+		// @ts-expect-error
+		'' satisfies UserId
+		// @ts-expect-error
+		0 as unknown as Email satisfies UserId
+		// @ts-expect-error
+		validatorFor<UserId>()(h.string)
+		// @ts-expect-error
+		validatorFor<UserId>()(brand<'Email'>()(h.string))
+		
+		// brands can be combined
+		const AdminId = brand<'AdminId'>()(UserId)
+		0 as unknown as ValidationTargetOf<typeof AdminId> satisfies UserId & Brand<'AdminId'>
+	})
+	
+	const x: unknown = 'a'
+	if (is(x, UserId)) x satisfies UserId
+	assert.deepStrictEqual(validate({ id: 'a', email: ' a@b.c ', friends: ['b'] }, User), { ok: true, value: { id: 'a', email: 'a@b.c', friends: ['b'] } })
+	assert.deepStrictEqual(validate(0, UserId), validate(0, h.string))
+}
+
+// tagged unions
+
+{
+	const Shape = h.taggedUnion('kind', {
+		circle: h.props({ radius: h.number }),
+		square: h.props({ size: h.number }),
+	})
+	testHelper(
+		Shape,
+		{
+			ok: [{ kind: 'circle', radius: 0 }, { kind: 'square', size: 0 }],
+			fail: [0, {}, { kind: 'triangle' }, { kind: 'toString' }, { kind: 'circle', size: 0 }],
+		},
+		x =>
+			typeof x == 'object' && x !== null
+			&& (
+				'kind' in x && x.kind == 'circle' && 'radius' in x && typeof x.radius == 'number'
+				|| 'kind' in x && x.kind == 'square' && 'size' in x && typeof x.size == 'number'
+			),
+		(x, pass) =>
+			pass(x)
+				? x satisfies { kind: 'circle'; radius: number } | { kind: 'square'; size: number }
+				// @ts-expect-error
+				: x satisfies { kind: 'circle'; radius: number } | { kind: 'square'; size: number }
+	)
+	
+	assert.strictEqual(reportOf({ kind: 'triangle' }, Shape), `Unknown kind 'triangle', expected one of 'circle', 'square'.`)
+	assert.strictEqual(reportOf({}, Shape), `Unknown kind undefined, expected one of 'circle', 'square'.`)
+	// only the error of the matching validator is reported
+	assert.deepStrictEqual(validate({ kind: 'circle', radius: '' }, Shape), validate({ kind: 'circle', radius: '' }, h.props({ radius: h.number })))
+	
+	// the validator runs only the matching validator
+	let called = 0
+	const counted = validator(function*(x: object) {
+		called += 1
+		return x
+	})
+	validate({ kind: 'b' }, h.taggedUnion('kind', { a: counted, b: counted, c: counted }))
+	assert.strictEqual(called, 1)
+}
+{
+	// the discriminant selects the key by its string form, and the narrowed types include such tags
+	const Result = h.taggedUnion('ok', { true: h.props({ value: h.number }), false: h.props({ error: h.string }) })
+	assert.strictEqual(is({ ok: true, value: 0 }, Result), true)
+	assert.strictEqual(is({ ok: 'false', error: '' }, Result), true)
+	assert.strictEqual(is({ ok: 1, value: 0 }, Result), false)
+	const Versioned = h.taggedUnion('v', { 1: h.props({}) })
+	assert.strictEqual(is({ v: 1 }, Versioned), true)
+	assert.strictEqual(is({ v: '1' }, Versioned), true)
+	assert.strictEqual(is({ v: '01' }, Versioned), false)
+	compileOnly(() => {
+		const x = 0 as unknown as ValidationTargetOf<typeof Result>
+		if (x.ok === true) x.value satisfies number
+		else if (x.ok === false) x.error satisfies string
+		0 as unknown as ValidationTargetOf<typeof Versioned>['v'] satisfies '1' | 1 | 1n
+		// @ts-expect-error
+		0 as unknown as ValidationTargetOf<typeof Versioned>['v'] satisfies 1
+	})
+}
+{
+	// transformers
+	const Query = h.taggedUnion('type', {
+		page: h.props({ page: h.coerce.number }),
+	})
+	assert.deepStrictEqual(validate({ type: 'page', page: '2' }, Query), { ok: true, value: { type: 'page', page: 2 } })
+	compileOnly(() => {
+		0 as unknown as ValidationOutputOf<typeof Query> satisfies { type: 'page'; page: number }
+		0 as unknown as ValidationInputOf<typeof Query> satisfies { type: 'page'; page: number | string }
+	})
+}
+
+// lazy validators
+
+{
+	interface Tree {
+		value: number
+		children: Array<Tree>
+	}
+	const Tree = validatorFor<Tree>()(h.lazy((): IntermediateValidator<Tree, unknown> =>
+		h.props({ value: h.number, children: h.arrayOf(Tree) })
+	))
+	testHelper(
+		Tree,
+		{
+			ok: [{ value: 0, children: [] }, { value: 0, children: [{ value: 1, children: [] }] }],
+			fail: [0, { value: 0 }, { value: 0, children: [{ value: '', children: [] }] }],
+		},
+		function isTree(x): boolean {
+			return typeof x == 'object' && x !== null
+				&& 'value' in x && typeof x.value == 'number'
+				&& 'children' in x && Array.isArray(x.children) && x.children.every(isTree)
+		},
+		(x, pass) =>
+			pass(x)
+				? x satisfies Tree
+				// @ts-expect-error
+				: x satisfies Tree
+	)
+	
+	const res = validate({ value: 0, children: [{ value: '', children: [] }] }, Tree)
+	assert(!res.ok)
+	assert.deepStrictEqual(getLeafError(res).path, ['children', 0, 'value'])
+}
+{
+	// the validator is got only once, on the first validation
+	let got = 0
+	const iv = h.lazy(() => {
+		got += 1
+		return h.string
+	})
+	assert.strictEqual(got, 0)
+	assert(validate('', iv).ok)
+	assert(!validate(0, iv).ok)
+	assert.strictEqual(got, 1)
+}
+{
+	// cycles
+	interface Node {
+		next: Node | null
+	}
+	const Node: IntermediateValidator<Node, unknown> = h.lazy(() => h.props({ next: h.nullable(Node) }), { detectCycles: true })
+	const node: Node = { next: { next: null } }
+	node.next!.next = node
+	assert.deepStrictEqual(validate(node, Node), { ok: true, value: node })
+	assert(!validate({ next: { next: 0 } }, Node).ok)
+	
+	const NoDetection: IntermediateValidator<Node, unknown> = h.lazy(() => h.props({ next: h.nullable(NoDetection) }))
+	assert.throws(() => validate(node, NoDetection), RangeError)
+	
+	// the object is validated again after the validation failed
+	const bad = { next: 0 }
+	assert(!validate(bad, Node).ok)
+	assert(!validate(bad, Node).ok)
+	assert.strictEqual(validateAll({ next: { next: 0, extra: bad } }, Node).ok, false)
+}
+
+// collections
+
+testHelper(
+	h.mapOf(h.string, h.number),
+	{
+		ok: [new Map(), new Map([['a', 0]])],
+		fail: [{}, [], new Map([[0, 0]]), new Map([['a', '']]), new Set()],
+	},
+	x => x instanceof Map && [...x].every(([k, v]) => typeof k == 'string' && typeof v == 'number'),
+	(x, pass) =>
+		pass(x)
+			? x satisfies Map<string, number>
+			// @ts-expect-error
+			: x satisfies Map<string, number>
+)
+testHelper(
+	h.setOf(h.string),
+	{
+		ok: [new Set(), new Set(['a'])],
+		fail: [[], new Set([0]), new Map()],
+	},
+	x => x instanceof Set && [...x].every(elem => typeof elem == 'string'),
+	(x, pass) =>
+		pass(x)
+			? x satisfies Set<string>
+			// @ts-expect-error
+			: x satisfies Set<string>
+)
+testHelper(
+	h.iterableOf(h.string),
+	{
+		ok: [[], ['a'], new Set(['a']), new Map([['a', 'b']]).values()],
+		fail: ['abc', {}, [0], new Set([0])],
+	},
+	x => typeof x == 'object' && x !== null && Symbol.iterator in x && [...x as Iterable<unknown>].every(elem => typeof elem == 'string'),
+	(x, pass) =>
+		pass(x)
+			? x satisfies Iterable<string>
+			// @ts-expect-error
+			: x satisfies Iterable<string>
+)
+compileOnly(() => {
+	const Config = h.readonlyMapOf(h.string, h.coerce.number)
+	0 as unknown as ValidationOutputOf<typeof Config> satisfies ReadonlyMap<string, number>
+	// @ts-expect-error
+	0 as unknown as ValidationOutputOf<typeof Config> satisfies Map<string, number>
+})
+{
+	// errors identify the offending key or element
+	const res = validate(new Map<string, unknown>([['a', 0], ['b', '']]), h.mapOf(h.string, h.number))
+	assert(!res.ok)
+	assert.strictEqual(formatError(res.reason), 'b: The value is not a number.')
+	assert.deepStrictEqual(getLeafError(res), { path: ['b'], message: codedError('notNumber') })
+	
+	// keys other than property keys are not a part of the path
+	const objKey = validate(new Map([[{}, '']]), h.mapOf(h.object, h.number))
+	assert(!objKey.ok)
+	assert.strictEqual(formatError(objKey.reason), 'The value of key object did not pass the given validator. > The value is not a number.')
+	assert.deepStrictEqual(getLeafError(objKey), { path: [], message: codedError('notNumber') })
+	
+	// keys are not locations of values, so key errors name the key and the index of the entry instead
+	const keyRes = validate(new Map<unknown, unknown>([['a', 0], [0, 0]]), h.mapOf(h.string, h.number))
+	assert(!keyRes.ok)
+	assert.deepStrictEqual(keyRes.reason, [codedError('invalidMapKey', { key: 0, index: 1 }), codedError('notString')])
+	assert.strictEqual(formatError(keyRes.reason), 'The key 0 of the entry at index 1 did not pass the given validator. > The value is not a string.')
+	assert.deepStrictEqual(getLeafError(keyRes), { path: [], message: codedError('notString') })
+	
+	const setRes = validate(new Set(['a', 0]), h.setOf(h.string))
+	assert(!setRes.ok)
+	assert.deepStrictEqual(getLeafError(setRes), { path: [1], message: codedError('notString') })
+	
+	const all = validateAll(new Map<unknown, unknown>([[0, 0], ['a', ''], ['b', 1]]), h.mapOf(h.string, h.number))
+	assert(!all.ok)
+	assert.deepStrictEqual(all.reason.map(err => getLeafError({ ok: false, reason: err })), [
+		{ path: [], message: codedError('notString') },
+		{ path: ['a'], message: codedError('notNumber') },
+	])
+}
+{
+	// collections are created again only if any of the entries is transformed
+	const map = new Map([['a', 0]])
+	const mapRes = validate(map, h.mapOf(h.string, h.number))
+	assert(mapRes.ok && mapRes.value === map)
+	assert.deepStrictEqual(validate(new Map([[' a ', '1']]), h.mapOf(h.trim, h.coerce.number)), { ok: true, value: new Map([['a', 1]]) })
+	
+	const set = new Set(['a'])
+	const setRes = validate(set, h.setOf(h.string))
+	assert(setRes.ok && setRes.value === set)
+	assert.deepStrictEqual(validate(new Set(['1', '2']), h.setOf(h.coerce.number)), { ok: true, value: new Set([1, 2]) })
+	
+	// the iterable is iterated only once
+	function* gen() {
+		yield 'a'
+		yield 'b'
+	}
+	assert.deepStrictEqual(validate(gen(), h.iterableOf(h.string)), { ok: true, value: ['a', 'b'] })
+	
+	// the elements are validated while iterating, so infinite iterables end at the first failure
+	function* naturals() {
+		for (let n = 0; ; n++) yield n
+	}
+	const infinite = validate(naturals(), h.iterableOf(h.oneOf(0, 1, 2)))
+	assert(!infinite.ok)
+	assert.deepStrictEqual(getLeafError(infinite), { path: [3], message: codedError('notOneOf', { expected: [0, 1, 2] }) })
+}
+
+// built-in objects
+
+{
+	const cases: Array<[IntermediateValidator<unknown, unknown>, string, unknown]> = [
+		[h.date, 'new Date()', Object.create(Date.prototype)],
+		[h.validDate, 'new Date(0)', new Date(NaN)],
+		[h.regExp, '/a/g', RegExp.prototype],
+		[h.map, 'new Map()', Object.create(Map.prototype)],
+		[h.set, 'new Set()', new Map()],
+		[h.arrayBuffer, 'new ArrayBuffer(1)', new Uint8Array(1)],
+		[h.uint8Array, 'new Uint8Array(1)', new Int8Array(1)],
+		[h.float64Array, 'new Float64Array(1)', [0]],
+		[h.bigInt64Array, 'new BigInt64Array(1)', new BigUint64Array(1)],
+		[h.promiseLike, 'Promise.resolve()', { then: 0 }],
+		[h.error, 'new TypeError()', { name: 'Error', message: '' }],
+	]
+	for (const [iv, source, lookAlike] of cases) {
+		// objects from other realms pass the validators
+		assert.strictEqual(validate(vm.runInNewContext(source), iv).ok, true, source)
+		assert.strictEqual(validate(lookAlike, iv).ok, false, source)
+		assert.strictEqual(validate(null, iv).ok, false, source)
+	}
+	assert.strictEqual(is(vm.runInNewContext('new Date()'), h.instanceOf(Date)), false)
+	
+	assert.strictEqual(is(Buffer.from('a'), h.uint8Array), true)
+	assert.strictEqual(is({ then: () => {} }, h.promiseLike), true)
+	assert.strictEqual(is(new Date(NaN), h.date), true)
+	assert.strictEqual(is(new DOMException('', 'AbortError'), h.error), true)
+	assert.strictEqual(is({ [Symbol.toStringTag]: 'Error' }, h.error), false)
+	assert.strictEqual(is(Object.create(DOMException.prototype), h.error), false)
+	assert.strictEqual(reportOf(0, h.date), 'The value is not a Date.')
+	assert.strictEqual(reportOf(0, h.int8Array), 'The value is not an Int8Array.')
+	
+	// containers accept collections from other realms as well
+	assert.strictEqual(is(vm.runInNewContext('new Map([["a", 0]])'), h.mapOf(h.string, h.number)), true)
+	assert.strictEqual(is(vm.runInNewContext('new Set(["a"])'), h.setOf(h.string)), true)
+	assert.strictEqual(is(vm.runInNewContext('new Date(0)'), h.coerce.date), true)
+	
+	compileOnly(() => {
+		const x = 0 as unknown
+		if (is(x, h.map)) x satisfies Map<unknown, unknown>
+		if (is(x, h.uint8Array)) x satisfies Uint8Array
+	})
+}
+
+// error reports
+
+{
+	const report = (x: unknown, iv: IntermediateValidator<unknown, unknown>, opts?: Parameters<typeof formatError>[1]) => {
+		const res = validate(x, iv)
+		assert(!res.ok)
+		return formatError(res.reason, opts)
+	}
+	
+	// chains are collapsed into the path and the leaf error
+	const Users = h.props({ users: h.arrayOf(h.props({ 'first name': h.string })) })
+	assert.strictEqual(report({ users: [{ 'first name': 0 }] }, Users), 'users[0]["first name"]: The value is not a string.')
+	assert.strictEqual(report(0, h.string), 'The value is not a string.')
+	// errors without paths are kept
+	assert.strictEqual(report([0], wrapError(h.tuple(h.string), 'Invalid pair.')), '[0]: Invalid pair. > The value is not a string.')
+	
+	// causes of errors with multiple causes are listed below them
+	const Id = h.props({ id: h.or(h.string, h.props({ value: h.number }), h.oneOf(1, 2)) })
+	assert.strictEqual(report({ id: { value: '' } }, Id), [
+		'id: The value did not pass any of the given validators.',
+		'  - The value is not a string.',
+		'  - value: The value is not a number.',
+		'  - The value is none of the given values.',
+	].join('\n'))
+	const Nested = h.or(h.tuple(h.or(h.string, h.number)), h.null_)
+	assert.strictEqual(report([true], Nested), [
+		'The value did not pass any of the given validators.',
+		'  - [0]: The value did not pass any of the given validators.',
+		'    - The value is not a string.',
+		'    - The value is not a number.',
+		'  - The value is not null.',
+	].join('\n'))
+	assert.strictEqual(report({ id: { value: '' } }, Id, { maxCauses: 1, stringify: err => `<${isCodedError(err) ? formatMessage(err) : err}>` }), [
+		'id: <The value did not pass any of the given validators.>',
+		'  - <The value is not a string.>',
+		'  - ... 2 more',
+	].join('\n'))
+	// errors other than strings are shown as JSON
+	assert.strictEqual(report(0, validator(function*(_) { throw yield { code: 1 } })), '{"code":1}')
+}
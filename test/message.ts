@@ -0,0 +1,71 @@
+import assert from 'node:assert'
+import * as h from '../src/helper.js'
+import * as r from '../src/refinement.js'
+import { validate, validateAll, getLeafError, formatError, isErrorWithCause } from '../src/validator.js'
+import { ValidationError, assertIs, assertion, type Assertion } from '../src/assert.js'
+import { codedError, isCodedError, formatMessage, type ErrorMessages } from '../src/message.js'
+
+const Username = h.pipe(h.string, r.minLength(3))
+
+// built-ins fail with codes and parameters, not messages
+assert.deepStrictEqual(validate(0, Username), { ok: false, reason: codedError('notString') })
+assert.deepStrictEqual(validate('ab', Username), { ok: false, reason: { code: 'tooShort', params: { min: 3, actual: 2 } } })
+assert.deepStrictEqual(validate([0, 0], r.uniqueItems()), { ok: false, reason: codedError('duplicateItem', { index: 1, firstIndex: 0 }) })
+assert(isCodedError(codedError('notString')))
+assert(isCodedError(JSON.parse(JSON.stringify(codedError('tooShort', { min: 3, actual: 2 })))), 'errors survive serialization')
+assert(!isCodedError('The value is not a string.'))
+assert(!isCodedError({ code: 'unknown', params: {} }))
+assert(!isCodedError({ code: 'notString' }))
+
+// messages are made when the errors are shown, by the catalog given at that time
+const korean: Partial<ErrorMessages> = {
+	notString: () => '문자열이 아닙니다.',
+	tooShort: ({ min, actual }) => `${min}자 이상이어야 합니다. (현재 ${actual}자)`,
+	invalidProperty: ({ key }) => `${key.toString()}: 잘못됨`,
+}
+const japanese: Partial<ErrorMessages> = {
+	notString: () => '文字列ではありません。',
+}
+{
+	const res = validate('ab', Username)
+	assert(!res.ok)
+	assert.strictEqual(formatError(res.reason, { messages: korean }), '3자 이상이어야 합니다. (현재 2자)')
+	assert.strictEqual(formatError(res.reason), 'The string is too short. Expected: at least 3 Actual: 2')
+}
+{
+	// different catalogs can be used at the same time
+	const res = validate(0, Username)
+	assert(!res.ok)
+	assert.strictEqual(formatError(res.reason, { messages: korean }), '문자열이 아닙니다.')
+	assert.strictEqual(formatError(res.reason, { messages: japanese }), '文字列ではありません。')
+	// codes that are not given fall back to English
+	assert.strictEqual(formatMessage(codedError('notNumber'), korean), 'The value is not a number.')
+}
+{
+	// messages of containers are made by the catalog as well
+	const res = validateAll({ name: 0 }, h.props({ name: h.string }, { allowExtra: false }))
+	assert(!res.ok)
+	const [err] = res.reason
+	assert(isErrorWithCause(err) && isCodedError(err[0]))
+	assert.deepStrictEqual(err[0], codedError('invalidProperty', { key: 'name' }))
+	assert.strictEqual(formatMessage(err[0], korean), 'name: 잘못됨')
+	assert.deepStrictEqual(getLeafError({ ok: false, reason: res.reason[0] }), { path: ['name'], message: codedError('notString') })
+}
+{
+	const res = validate(0, h.string)
+	assert(!res.ok)
+	assert.strictEqual(new ValidationError(res.reason, 0, { messages: japanese }).message, '文字列ではありません。')
+	assert.strictEqual(new ValidationError(res.reason, 0).message, 'The value is not a string.')
+	
+	// assertions pass the catalog to the error
+	assert.throws(() => assertIs(0, h.string, { messages: japanese }), (err: unknown) => err instanceof ValidationError && err.message == '文字列ではありません。')
+	const assertString: Assertion<string> = assertion(h.string, { messages: korean })
+	assert.throws(() => assertString(0), (err: unknown) => err instanceof ValidationError && err.message == '문자열이 아닙니다.')
+}
+
+assert.strictEqual(formatMessage(codedError('notString')), 'The value is not a string.')
+assert.strictEqual(
+	formatMessage(codedError('extraProperties', { keys: ['a', 'b', 'c', 'd', 'e', 'f', Symbol('g')] })),
+	'The object have extra properties: a, b, c, d, e, ... 2 more items',
+)
+assert.strictEqual(formatMessage(codedError('unexpectedLength', { min: 1, max: Infinity, actual: 0 })), 'The array has unexpected length. Expected: at least 1 Actual: 0')
@@ -0,0 +1,162 @@
+import assert from 'node:assert'
+import * as h from '../src/helper.js'
+import * as r from '../src/refinement.js'
+import { type IntermediateValidator, validate } from '../src/validator.js'
+import { is } from '../src/predicate.js'
+import { compileOnly, reportOf } from './common.js'
+
+const check = <Req>(iv: IntermediateValidator<any, unknown, Req>, { ok, fail }: Record<'ok' | 'fail', Array<NoInfer<Req>>>) => {
+	for (const x of ok) assert(validate(x, iv).ok, `Expected ${String(x)} to succeed.`)
+	for (const x of fail) assert(!validate(x, iv).ok, `Expected ${String(x)} to fail.`)
+}
+
+// strings
+
+check(r.minLength(2), { ok: ['ab', 'abc'], fail: ['', 'a'] })
+check(r.maxLength(2), { ok: ['', 'ab'], fail: ['abc'] })
+check(r.nonEmpty, { ok: ['a'], fail: [''] })
+assert.strictEqual(reportOf('a', r.minLength(2)), 'The string is too short. Expected: at least 2 Actual: 1')
+assert.strictEqual(reportOf('abc', r.maxLength(2)), 'The string is too long. Expected: at most 2 Actual: 3')
+
+check(r.regex(/^[a-z]+$/), { ok: ['abc'], fail: ['', 'ABC', 'a1'] })
+{
+	// the result does not depend on previous validations
+	const iv = r.regex(/a/g)
+	check(iv, { ok: ['a', 'a', 'ba'], fail: ['b'] })
+	assert.strictEqual(reportOf('b', iv), 'The string does not match the pattern /a/.')
+}
+
+check(r.startsWith('user-'), { ok: ['user-', 'user-1'], fail: ['', 'user', 'admin-user-1'] })
+check(r.endsWith('.json'), { ok: ['a.json'], fail: ['a.jsonc', 'json'] })
+assert.strictEqual(reportOf('admin', r.startsWith('user-')), `The string does not start with 'user-'.`)
+compileOnly(() => {
+	const x = '' as string
+	if (is(x, r.startsWith('user-'))) x satisfies `user-${string}`
+	if (is(x, r.endsWith('.json'))) x satisfies `${string}.json`
+	// @ts-expect-error
+	if (is(x, r.minLength(1))) x satisfies `user-${string}`
+})
+
+check(r.email, { ok: ['foo@example.com', 'foo.bar+baz@sub.example.co.jp', 'foo@localhost'], fail: ['', 'foo', 'foo@', '@example.com', 'foo bar@example.com', 'foo@-example.com'] })
+check(r.uuid, { ok: ['123e4567-e89b-12d3-a456-426614174000', '00000000-0000-0000-0000-000000000000', 'A987FBC9-4BED-3078-CF07-9141BA07C9F3'], fail: ['', '123e4567e89b12d3a456426614174000', '123e4567-e89b-12d3-a456-42661417400g'] })
+check(r.url, { ok: ['https://example.com', 'https://example.com/a?b=c#d', 'mailto:foo@example.com'], fail: ['', 'example.com', '/relative/path'] })
+check(r.isoDate, { ok: ['2024-02-29', '2000-02-29', '0001-01-01'], fail: ['', '2023-02-29', '1900-02-29', '2024-04-31', '2024-13-01', '2024-00-10', '2024-1-1', '2024-01-01T00:00:00Z'] })
+check(r.isoDateTime, {
+	ok: ['2024-02-29T12:34Z', '2024-02-29T12:34:56Z', '2024-02-29T12:34:56.789Z', '2024-02-29T12:34:56+09:00', '2024-02-29T12:34:56.7-05:30'],
+	fail: ['', '2024-02-29', '2024-02-29T12:34:56', '2024-02-30T12:34:56Z', '2024-02-29T24:00:00Z', '2024-02-29T12:60:00Z', '2024-02-29T12:34:60Z', '2024-02-29 12:34:56Z', '2024-02-29T12:34:56+24:00'],
+})
+
+{
+	// refinements compose with `pipe` and `and`
+	const Username = h.pipe(h.string, h.and(r.startsWith('user-'), r.maxLength(10)))
+	check(Username, { ok: ['user-1'], fail: [0, 'admin-1', 'user-123456'] })
+	compileOnly(() => {
+		const x: unknown = ''
+		if (is(x, Username)) x satisfies `user-${string}`
+	})
+	
+	const User = h.props({ email: h.pipe(h.string, r.email) })
+	check(User, { ok: [{ email: 'foo@example.com' }], fail: [{ email: 'foo' }, { email: 0 }] })
+}
+
+// numbers
+
+check(r.integer, { ok: [0, -1, 1e21], fail: [0.5, NaN, Infinity] })
+check(r.safeInteger, { ok: [0, Number.MAX_SAFE_INTEGER], fail: [0.5, Number.MAX_SAFE_INTEGER + 1] })
+check(r.finite, { ok: [0, -0.5, Number.MAX_VALUE], fail: [NaN, Infinity, -Infinity] })
+check(r.positive, { ok: [1, 0.1], fail: [0, -1, NaN] })
+check(r.nonNegative, { ok: [0, 1], fail: [-1, -0.1, NaN] })
+
+check(r.min(1), { ok: [1, 2], fail: [0, NaN] })
+check(r.min(1, { exclusive: true }), { ok: [2], fail: [1, 0] })
+check(r.max(1), { ok: [1, 0], fail: [2, NaN] })
+check(r.max(1, { exclusive: true }), { ok: [0], fail: [1, 2] })
+check(r.between(0, 1), { ok: [0, 0.5, 1], fail: [-1, 2, NaN] })
+check(r.between(0, 1, { minExclusive: true, maxExclusive: true }), { ok: [0.5], fail: [0, 1] })
+check(r.multipleOf(0.1), { ok: [0, 0.3, 1.2, -0.7], fail: [0.05, NaN, Infinity] })
+check(r.multipleOf(3), { ok: [0, 3, -9], fail: [1, 4.5] })
+assert.throws(() => r.multipleOf(0), RangeError)
+
+// the violated bound is reported
+assert.strictEqual(reportOf(0, r.min(1)), 'The number is less than 1.')
+assert.strictEqual(reportOf(1, r.min(1, { exclusive: true })), 'The number is less than or equal to 1.')
+assert.strictEqual(reportOf(11, r.between(0, 10)), 'The number is greater than 10.')
+assert.strictEqual(reportOf(10, r.between(0, 10, { maxExclusive: true })), 'The number is greater than or equal to 10.')
+assert.strictEqual(reportOf(4, r.multipleOf(3)), 'The number is not a multiple of 3.')
+
+// bigints
+check(r.min(1n), { ok: [1n, 2n], fail: [0n] })
+check(r.max(1n, { exclusive: true }), { ok: [0n], fail: [1n] })
+check(r.between(-1n, 1n), { ok: [-1n, 0n, 1n], fail: [2n] })
+check(r.multipleOf(3n), { ok: [0n, -3n, 9n], fail: [1n] })
+assert.strictEqual(reportOf(0n, r.min(1n)), 'The bigint is less than 1.')
+check(r.integer, { ok: [0n, -1n], fail: [] })
+check(r.safeInteger, { ok: [0n, BigInt(Number.MIN_SAFE_INTEGER)], fail: [BigInt(Number.MAX_SAFE_INTEGER) + 1n] })
+check(r.finite, { ok: [0n, 10n ** 400n], fail: [] })
+check(r.positive, { ok: [1n], fail: [0n, -1n] })
+check(r.nonNegative, { ok: [0n, 1n], fail: [-1n] })
+assert.strictEqual(reportOf(0n, r.positive), 'The bigint is less than or equal to 0.')
+compileOnly(() => {
+	// the refinements for both keep the type that the preceding validator narrowed to
+	const Quantity = h.pipe(h.number, h.and(r.integer, r.positive))
+	const Balance = h.pipe(h.bigInt, r.nonNegative)
+	const x = 0 as unknown
+	if (is(x, Quantity)) {
+		x satisfies number
+		// @ts-expect-error
+		x satisfies bigint
+	}
+	if (is(x, Balance)) x satisfies bigint
+	
+	// @ts-expect-error
+	r.min(1n)(0)
+	// @ts-expect-error
+	r.min(1)(0n)
+	// @ts-expect-error
+	r.between(0, 1n)
+})
+
+{
+	// refinements can be used in definitions of `props`
+	const Item = h.props({
+		id: h.pipe(h.bigInt, r.min(1n)),
+		quantity: h.pipe(h.number, h.and(r.safeInteger, r.positive)),
+		discount: h.optional(h.pipe(h.number, r.between(0, 1))),
+	})
+	check(Item, {
+		ok: [{ id: 1n, quantity: 1 }, { id: 1n, quantity: 1, discount: 0.5 }],
+		fail: [{ id: 0n, quantity: 1 }, { id: 1n, quantity: 0 }, { id: 1n, quantity: 0.5 }, { id: 1n, quantity: 1, discount: 2 }],
+	})
+	compileOnly(() => {
+		const x: unknown = {}
+		if (is(x, Item)) x satisfies { id: bigint; quantity: number; discount?: number }
+	})
+}
+
+// arrays
+
+check(r.minItems(1), { ok: [[0], [0, 1]], fail: [[]] })
+check(r.maxItems(1), { ok: [[], [0]], fail: [[0, 1]] })
+assert.strictEqual(reportOf([], r.minItems(1)), 'The array has too few elements. Expected: at least 1 Actual: 0')
+assert.strictEqual(reportOf([0, 1], r.maxItems(1)), 'The array has too many elements. Expected: at most 1 Actual: 2')
+
+check(r.uniqueItems(), { ok: [[], [0, 1, '0'], [{}, {}]], fail: [[0, 1, 0], [NaN, NaN], [0, -0]] })
+check(r.uniqueItems((x: { id: number }) => x.id), { ok: [[{ id: 0 }, { id: 1 }]], fail: [[{ id: 0 }, { id: 0 }]] })
+assert.strictEqual(reportOf(['a', 'b', 'c', 'b'], r.uniqueItems()), 'The element at index 3 is a duplicate of the element at index 1.')
+
+{
+	// the element type is preserved
+	const Tags = h.pipe(h.arrayOf(h.string), h.and(r.minItems(1), r.maxItems(10), r.uniqueItems()))
+	check(Tags, { ok: [['a'], ['a', 'b']], fail: [[], [0], ['a', 'a']] })
+	compileOnly(() => {
+		const x = [] as unknown
+		if (is(x, Tags)) {
+			x satisfies Array<string>
+			// @ts-expect-error
+			x satisfies Array<number>
+		}
+	})
+	
+	const Users = h.pipe(h.arrayOf(h.props({ id: h.number })), r.uniqueItems(user => user.id))
+	check(Users, { ok: [[{ id: 0 }, { id: 1 }]], fail: [[{ id: 0 }, { id: 0 }]] })
+}
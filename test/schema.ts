@@ -0,0 +1,248 @@
+import assert from 'node:assert'
+import * as h from '../src/helper.js'
+import * as r from '../src/refinement.js'
+import { type IntermediateValidator, validate, validator } from '../src/validator.js'
+import { toJsonSchema, fromJsonSchema, type JsonSchema } from '../src/schema.js'
+import { reportOf } from './common.js'
+
+const $schema = 'https://json-schema.org/draft/2020-12/schema'
+
+const check = (iv: Parameters<typeof toJsonSchema>[0], expected: JsonSchema) =>
+	assert.deepStrictEqual(toJsonSchema(iv), { $schema, ...expected })
+
+check(h.string, { type: 'string' })
+check(h.number, { type: 'number' })
+check(h.boolean, { type: 'boolean' })
+check(h.null_, { type: 'null' })
+check(h.equal('a'), { const: 'a' })
+check(h.oneOf('a', 'b'), { enum: ['a', 'b'] })
+check(h.or(h.string, h.number), { anyOf: [{ type: 'string' }, { type: 'number' }] })
+check(h.and(h.props({ a: h.string }), h.props({ b: h.number })), {
+	allOf: [
+		{ type: 'object', properties: { a: { type: 'string' } }, required: ['a'] },
+		{ type: 'object', properties: { b: { type: 'number' } }, required: ['b'] },
+	],
+})
+check(h.nullable(h.string), { anyOf: [{ type: 'string' }, { type: 'null' }] })
+check(h.arrayOf(h.string), { type: 'array', items: { type: 'string' } })
+check(h.tuple(h.string, h.number), {
+	type: 'array',
+	prefixItems: [{ type: 'string' }, { type: 'number' }],
+	items: false,
+	minItems: 2,
+	maxItems: 2,
+})
+check(h.dict(h.string, h.number), { type: 'object', additionalProperties: { type: 'number' } })
+check(h.dict(h.oneOf('a', 'b'), h.number), { type: 'object', propertyNames: { enum: ['a', 'b'] }, additionalProperties: { type: 'number' } })
+check(
+	h.props({
+		name: h.string,
+		nickname: h.optional(h.string),
+		age: h.withDefault(h.number, 0),
+		[Symbol()]: h.string,
+	}, { allowExtra: false }),
+	{
+		type: 'object',
+		properties: {
+			name: { type: 'string' },
+			nickname: { type: 'string' },
+			age: { type: 'number', default: 0 },
+		},
+		required: ['name'],
+		additionalProperties: false,
+	},
+)
+check(h.strictProps({ a: h.string }, { partial: true }), { type: 'object', properties: { a: { type: 'string' } } })
+{
+	interface Tree {
+		children: Array<Tree>
+	}
+	const Tree: IntermediateValidator<Tree, unknown> = h.lazy(() => h.props({ children: h.arrayOf(Tree) }))
+	check(h.arrayOf(Tree), {
+		type: 'array',
+		items: { $ref: '#/$defs/lazy0' },
+		$defs: {
+			lazy0: {
+				type: 'object',
+				properties: { children: { type: 'array', items: { $ref: '#/$defs/lazy0' } } },
+				required: ['children'],
+			},
+		},
+	})
+	// the exported schema can be imported again
+	const Imported = fromJsonSchema(toJsonSchema(Tree))
+	assert(validate({ children: [{ children: [] }] }, Imported).ok)
+	assert(!validate({ children: [{}] }, Imported).ok)
+}
+check(h.pipe(h.string, r.minLength(1)), { type: 'string', minLength: 1 })
+check(h.pipe(h.string, h.and(r.startsWith('a.b'), r.email)), { type: 'string', allOf: [{ pattern: '^a\\.b' }, { format: 'email' }] })
+check(h.pipe(h.pipe(h.string, r.regex(/^a/)), r.endsWith('z')), { allOf: [{ type: 'string', pattern: '^a' }, { pattern: 'z$' }] })
+check(h.pipe(h.string, r.regex(/^a/i)), { type: 'string', $comment: 'The validator cannot be described as a JSON Schema.' })
+check(h.templateLiteral('v', h.oneOf(1, 2)), { type: 'string', pattern: '^(?:v)(?:1|2)$' })
+check(h.pipe(h.string, r.isoDateTime), { type: 'string', format: 'date-time' })
+check(h.pipe(h.number, h.and(r.integer, r.min(0), r.max(10, { exclusive: true }))), {
+	type: 'number',
+	allOf: [{ type: 'integer' }, { minimum: 0 }, { exclusiveMaximum: 10 }],
+})
+check(h.pipe(h.number, r.between(0, 1, { minExclusive: true })), { type: 'number', exclusiveMinimum: 0, maximum: 1 })
+check(h.pipe(h.number, r.multipleOf(2)), { type: 'number', multipleOf: 2 })
+check(r.min(0n), { $comment: 'The validator cannot be described as a JSON Schema.' })
+check(h.nonEmptyArrayOf(h.string), { type: 'array', items: { type: 'string' }, minItems: 1 })
+check(h.pipe(h.arrayOf(h.string), h.and(r.maxItems(2), r.uniqueItems())), { type: 'array', items: { type: 'string' }, allOf: [{ maxItems: 2 }, { uniqueItems: true }] })
+check(h.tuple(h.string, h.optionalElement(h.number), h.rest(h.boolean)), {
+	type: 'array',
+	prefixItems: [{ type: 'string' }, { type: 'number' }],
+	items: { type: 'boolean' },
+	minItems: 1,
+})
+check(h.tuple(h.rest(h.string), h.number), { $comment: 'The validator cannot be described as a JSON Schema.' })
+check(h.taggedUnion('v', { 1: h.any, true: h.any }), {
+	anyOf: [
+		{ allOf: [{ type: 'object', properties: { v: { enum: ['1', 1] } }, required: ['v'] }, {}] },
+		{ allOf: [{ type: 'object', properties: { v: { enum: ['true', true] } }, required: ['v'] }, {}] },
+	],
+})
+check(h.taggedUnion('kind', { a: h.props({ x: h.number }) }), {
+	anyOf: [
+		{
+			allOf: [
+				{ type: 'object', properties: { kind: { const: 'a' } }, required: ['kind'] },
+				{ type: 'object', properties: { x: { type: 'number' } }, required: ['x'] },
+			],
+		},
+	],
+})
+
+{
+	const custom = validator(function*(x) {
+		return x
+	})
+	check(custom, { $comment: 'The validator cannot be described as a JSON Schema.' })
+	check(h.arrayOf(custom), { type: 'array', items: { $comment: 'The validator cannot be described as a JSON Schema.' } })
+	assert.deepStrictEqual(
+		toJsonSchema(h.arrayOf(custom), { opaque: iv => ({ description: iv === custom ? 'custom' : 'unknown' }) }),
+		{ $schema, type: 'array', items: { description: 'custom' } },
+	)
+}
+
+// import
+
+const expectOk = (iv: ReturnType<typeof fromJsonSchema>, ...values: Array<unknown>) => {
+	for (const x of values) assert(validate(x, iv).ok, `Expected ${JSON.stringify(x)} to pass.`)
+}
+const expectFail = (iv: ReturnType<typeof fromJsonSchema>, ...values: Array<unknown>) => {
+	for (const x of values) assert(!validate(x, iv).ok, `Expected ${JSON.stringify(x)} to fail.`)
+}
+
+expectOk(fromJsonSchema(true), 0, null, {})
+expectFail(fromJsonSchema(false), 0, null, {})
+expectOk(fromJsonSchema({}), 0, null, {})
+{
+	const iv = fromJsonSchema({ type: 'integer', minimum: 0, exclusiveMaximum: 10, multipleOf: 2 })
+	expectOk(iv, 0, 2, 8)
+	expectFail(iv, -2, 10, 3, 1.5, '2')
+	assert.strictEqual(reportOf(-2, iv), 'The number is less than 0.')
+}
+{
+	const iv = fromJsonSchema({ type: 'string', minLength: 2, maxLength: 3, pattern: '^a' })
+	expectOk(iv, 'ab', 'abc', 'a😀')
+	expectFail(iv, 'a', 'abcd', 'bc', 0)
+}
+{
+	// keywords ignore values of other types
+	const iv = fromJsonSchema({ minLength: 2, minimum: 1, properties: { a: { type: 'string' } } })
+	expectOk(iv, 'ab', 1, null, [], { a: '' })
+	expectFail(iv, 'a', 0, { a: 0 })
+}
+expectOk(fromJsonSchema({ type: ['string', 'null'] }), '', null)
+expectFail(fromJsonSchema({ type: ['string', 'null'] }), 0)
+expectOk(fromJsonSchema({ type: ['string', 'number', 'boolean'] }), '', 0, true)
+expectOk(fromJsonSchema({ const: { a: [1] } }), { a: [1] })
+expectFail(fromJsonSchema({ const: { a: [1] } }), { a: [2] }, { a: [1], b: 0 })
+expectOk(fromJsonSchema({ enum: ['a', 1, null] }), 'a', 1, null)
+expectFail(fromJsonSchema({ enum: ['a', 1, null] }), 'b', 0)
+{
+	const iv = fromJsonSchema({
+		type: 'object',
+		properties: {
+			name: { type: 'string' },
+			nickname: { type: 'string' },
+		},
+		required: ['name', 'id'],
+		additionalProperties: false,
+	})
+	expectOk(iv, { name: '', id: 0 }, { name: '', nickname: '', id: null })
+	expectFail(iv, { name: '' }, { name: 0, id: 0 }, { name: '', id: 0, extra: 0 }, [], null)
+	
+	// the errors are the same as hand-written validators
+	const handWritten = h.props({ name: h.string, nickname: h.optional(h.string), id: h.any }, { allowExtra: false })
+	for (const x of [{ name: 0, id: 0 }, { name: '', nickname: 0, id: 0 }, { name: '', id: 0, extra: 0 }, { name: '' }, 0]) {
+		assert.deepStrictEqual(validate(x, iv), validate(x, handWritten))
+	}
+}
+{
+	const iv = fromJsonSchema({ type: 'object', additionalProperties: { type: 'number' } })
+	expectOk(iv, {}, { a: 0 })
+	expectFail(iv, { a: '' })
+	assert.deepStrictEqual(validate({ a: '' }, iv), validate({ a: '' }, h.dict(h.string, h.number)))
+}
+{
+	const iv = fromJsonSchema({ type: 'object', properties: { a: { type: 'string' } }, additionalProperties: { type: 'number' }, propertyNames: { pattern: '^[a-z]$' } })
+	expectOk(iv, { a: '', b: 0 })
+	expectFail(iv, { a: 0 }, { a: '', b: '' }, { a: '', bb: 0 })
+}
+{
+	const iv = fromJsonSchema({ type: 'array', items: { type: 'string' }, minItems: 1, maxItems: 2 })
+	expectOk(iv, [''], ['', ''])
+	expectFail(iv, [], ['', '', ''], [0], {})
+	assert.deepStrictEqual(validate([0], iv), validate([0], h.arrayOf(h.string)))
+}
+{
+	const iv = fromJsonSchema({ type: 'array', prefixItems: [{ type: 'string' }, { type: 'number' }], items: false })
+	expectOk(iv, [], [''], ['', 0])
+	expectFail(iv, [0], ['', ''], ['', 0, 0])
+	expectOk(fromJsonSchema({ type: 'array', prefixItems: [{ type: 'string' }], items: { type: 'number' } }), [''], ['', 0, 1])
+}
+{
+	expectOk(fromJsonSchema({ anyOf: [{ type: 'string' }, { type: 'number' }] }), '', 0)
+	expectFail(fromJsonSchema({ anyOf: [{ type: 'string' }, { type: 'number' }] }), null)
+	expectOk(fromJsonSchema({ allOf: [{ minimum: 0 }, { maximum: 1 }] }), 0, 1)
+	expectFail(fromJsonSchema({ allOf: [{ minimum: 0 }, { maximum: 1 }] }), 2)
+	const exactlyOne = fromJsonSchema({ oneOf: [{ type: 'integer' }, { minimum: 0 }] })
+	expectOk(exactlyOne, -1, 0.5)
+	expectFail(exactlyOne, 1, -0.5)
+	expectOk(fromJsonSchema({ not: { type: 'string' } }), 0)
+	expectFail(fromJsonSchema({ not: { type: 'string' } }), '')
+}
+{
+	const Tree = fromJsonSchema({
+		$ref: '#/$defs/Tree',
+		$defs: {
+			Tree: {
+				type: 'object',
+				properties: {
+					value: { type: 'number' },
+					children: { type: 'array', items: { $ref: '#/$defs/Tree' } },
+				},
+				required: ['value', 'children'],
+			},
+		},
+	})
+	expectOk(Tree, { value: 0, children: [] }, { value: 0, children: [{ value: 1, children: [] }] })
+	expectFail(Tree, { value: 0, children: [{ value: '', children: [] }] })
+	
+	expectOk(fromJsonSchema({ type: 'object', properties: { self: { $ref: '#' } } }), { self: { self: {} } })
+	expectFail(fromJsonSchema({ type: 'object', properties: { self: { $ref: '#' } } }), { self: { self: 0 } })
+	expectOk(fromJsonSchema({ definitions: { 'a/b': { type: 'string' } }, $ref: '#/definitions/a~1b' }), '')
+	
+	assert.throws(() => fromJsonSchema({ $ref: '#/$defs/Missing' }))
+	assert.throws(() => fromJsonSchema({ $ref: 'https://example.com/schema.json' }))
+}
+{
+	// exported schemas can be imported back
+	const iv = h.props({ name: h.string, tags: h.arrayOf(h.oneOf('a', 'b')), age: h.optional(h.nullable(h.number)) })
+	const reimported = fromJsonSchema(toJsonSchema(iv))
+	for (const x of [{ name: '', tags: ['a'] }, { name: '', tags: ['c'] }, { name: '', tags: [], age: null }, { tags: [] }]) {
+		assert(validate(x, reimported).ok === validate(x, iv).ok)
+	}
+}